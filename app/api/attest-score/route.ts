@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { isAddress, type Address, type Hex } from "viem";
+import { runHash, signScoreAttestation } from "@/lib/attestation";
+import { CHAIN_ID } from "@/lib/chain";
+import { isDailyChallengeRun } from "@/lib/modes";
+import { parseReplay, verifyReplay } from "@/lib/verify";
+import { clientKey, takeVerifySteps } from "@/lib/verifyBudget";
+
+// Signs an EIP-712 score attestation for a run that re-simulates to the claimed result. The
+// attested scoreboard only accepts scores carrying this signature, so the key never leaves the server.
+
+export const runtime = "nodejs";
+
+type Body = {
+  replay: unknown; // Replay object or encodeReplay() string
+  player: string;
+};
+
+export async function POST(req: Request) {
+  const signerKey = (process.env.SCORE_SIGNER_PRIVATE_KEY ?? "").trim();
+  const scoreboard = (process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS ?? "").trim();
+  if (!signerKey) {
+    return NextResponse.json({ error: "Missing SCORE_SIGNER_PRIVATE_KEY" }, { status: 500 });
+  }
+  if (!isAddress(scoreboard)) {
+    return NextResponse.json({ error: "Missing NEXT_PUBLIC_SCOREBOARD_ADDRESS" }, { status: 500 });
+  }
+
+  let body: Body;
+  try {
+    body = (await req.json()) as Body;
+  } catch {
+    return NextResponse.json({ error: "Invalid JSON" }, { status: 400 });
+  }
+  if (!isAddress(String(body?.player ?? ""))) {
+    return NextResponse.json({ error: "player must be an address" }, { status: 400 });
+  }
+
+  try {
+    const rep = parseReplay(body.replay);
+    if (typeof rep === "string") return NextResponse.json({ error: rep }, { status: 422 });
+    // Stages are authored tracks with a finish line; the scoreboard only ranks endless runs.
+    if (rep.stageId !== undefined) return NextResponse.json({ error: "Stage runs are not saved onchain" }, { status: 422 });
+    // Cargo runs stop at the depot, so their distance is no score either.
+    if (rep.cargo) return NextResponse.json({ error: "Cargo runs are not saved onchain" }, { status: 422 });
+    // Only the wallet that was connected when the run started can save it.
+    if (rep.player?.toLowerCase() !== body.player.toLowerCase()) {
+      return NextResponse.json({ error: "This run was not recorded for this wallet" }, { status: 403 });
+    }
+    if (!takeVerifySteps(clientKey(req), rep.ticks)) {
+      return NextResponse.json({ error: "Too many runs to verify; try again in a minute" }, { status: 429 });
+    }
+    const result = verifyReplay(rep);
+    if (!result.ok) return NextResponse.json({ error: result.reason }, { status: 422 });
+
+    const attestation = await signScoreAttestation(signerKey as Hex, {
+      chainId: CHAIN_ID,
+      verifyingContract: scoreboard as Address,
+      player: body.player as Address,
+      meters: result.meters,
+      mapId: rep.mapId,
+      vehicleId: rep.vehicleId,
+      seed: rep.seed,
+      daily: isDailyChallengeRun(rep),
+      run: runHash(rep),
+    });
+    return NextResponse.json({ attestation }, { headers: { "cache-control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Attestation failed" }, { status: 500 });
+  }
+}
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { isAddress } from "viem";
+import { getLeaderboard, parseBoardKey } from "@/lib/leaderboard";
+
+// Leaderboards from the scoreboard's events, plus the rank of `?address=`.
+// GET /api/leaderboard?board=all|map:hills|daily:20380&offset=0&limit=20&address=0x...&minBlock=123
+
+export const runtime = "nodejs";
+
+export async function GET(req: Request) {
+  const params = new URL(req.url).searchParams;
+  const board = parseBoardKey(params.get("board") ?? "all");
+  if (!board) {
+    return NextResponse.json({ error: "board must be all, map:<id> or daily:<day>" }, { status: 400 });
+  }
+  const address = (params.get("address") ?? "").trim();
+  if (address && !isAddress(address)) {
+    return NextResponse.json({ error: "address must be an address" }, { status: 400 });
+  }
+  const minBlock = (params.get("minBlock") ?? "").trim();
+  if (minBlock && !/^\d+$/.test(minBlock)) {
+    return NextResponse.json({ error: "minBlock must be a block number" }, { status: 400 });
+  }
+
+  try {
+    const result = await getLeaderboard({
+      board,
+      offset: Number(params.get("offset") ?? "0"),
+      limit: Number(params.get("limit") ?? "10"),
+      player: address || undefined,
+      minBlock: minBlock ? BigInt(minBlock) : undefined,
+    });
+    return NextResponse.json(result, { headers: { "cache-control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ error: e?.message ?? "Leaderboard unavailable" }, { status: 502 });
+  }
+}
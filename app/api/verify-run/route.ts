@@ -0,0 +1,33 @@
+import { NextResponse } from "next/server";
+import { parseReplay, verifyReplay } from "@/lib/verify";
+import { clientKey, takeVerifySteps } from "@/lib/verifyBudget";
+
+// Re-simulates a recorded run with the same physics as the game and returns the distance it
+// really reaches. The client only offers "Save score onchain" for runs that pass.
+
+export const runtime = "nodejs";
+
+type Body = {
+  replay: unknown; // Replay object or encodeReplay() string
+};
+
+export async function POST(req: Request) {
+  let body: Body;
+  try {
+    body = (await req.json()) as Body;
+  } catch {
+    return NextResponse.json({ ok: false, reason: "Invalid JSON" }, { status: 400 });
+  }
+
+  try {
+    const rep = parseReplay(body?.replay);
+    if (typeof rep === "string") return NextResponse.json({ ok: false, reason: rep }, { status: 422 });
+    if (!takeVerifySteps(clientKey(req), rep.ticks)) {
+      return NextResponse.json({ ok: false, reason: "Too many runs to verify; try again in a minute" }, { status: 429 });
+    }
+    const result = verifyReplay(rep);
+    return NextResponse.json(result, { status: result.ok ? 200 : 422, headers: { "cache-control": "no-store" } });
+  } catch (e: any) {
+    return NextResponse.json({ ok: false, reason: e?.message ?? "Verification failed" }, { status: 500 });
+  }
+}
@@ -5,22 +5,29 @@ import { HeadPicker } from "@/components/HeadPicker";
 import { loadHead, saveHead, HeadId, HEADS } from "@/lib/heads";
 import { VehicleId, VEHICLES, loadVehicle, saveVehicle } from "@/lib/vehicles";
 import { MapId, loadMap, saveMap } from "@/lib/maps";
-import { AllUpgrades, loadAllUpgrades, saveAllUpgrades, upgradeCostForLevel, defaultUpgradeLevels, UPGRADE_CATEGORIES, UPGRADE_META, MAX_LEVEL } from "@/lib/upgrades";
-import { loadGarage, saveGarage, UnlockedVehicles, purchaseVehicle, loadLocalCoins, addLocalCoins, spendLocalCoins } from "@/lib/garage";
+import { AllUpgrades, loadAllUpgrades, saveAllUpgrades, upgradeCostForLevel, defaultUpgradeLevels, emptyAllUpgrades, UPGRADE_CATEGORIES, UPGRADE_META, MAX_LEVEL } from "@/lib/upgrades";
+import { freeGarage, loadGarage, saveGarage, UnlockedVehicles, purchaseVehicle, loadLocalCoins, addLocalCoins, spendLocalCoins, settleRun, RunSettlement } from "@/lib/garage";
 import { loadAchievements, saveAchievements, UnlockedAchievements, checkRunAchievements, ACHIEVEMENTS, AchievementId } from "@/lib/achievements";
-import { HillClimbCanvas, HillClimbHandle, HillClimbState } from "@/components/HillClimbCanvas";
+import { HillClimbCanvas, HillClimbHandle, HillClimbState, HillClimbGameOver } from "@/components/HillClimbCanvas";
+import type { Replay } from "@/lib/replay";
+import type { WeatherReading } from "@/lib/weather";
+import { GameMode, DailyRecord, DAILY_PLAYABLE_DAYS, dailyChallenge, dailyLabel, loadDailyRecord, recordDailyAttempt, recordDailyDelivery, msUntilNextDay, parseSeedInput, randomSeed, utcDay } from "@/lib/modes";
+import { CARGO_DEPOT_M } from "@/lib/simulation";
+import type { RunVerification } from "@/lib/verify";
+import { StageId, StageProgress, StageStars, STAGES, loadStageProgress, recordStageFinish, stageGoalsMet, nextStage, isStageUnlocked } from "@/lib/stages";
 import { MainMenu } from "@/components/MainMenu";
 import { initMiniApp, composeCast, addMiniApp } from "@/lib/miniapp";
 import { listInjectedWallets, type InjectedWallet } from "@/lib/wallet";
 import {
-  getOrConnectWallet, tryAutoConnectWallet, readBestMeters,
-  submitScoreMeters, getNextTokenId, mintRunNft, sendEthTip, clearCachedWallet,
+  getOrConnectWallet, tryAutoConnectWallet, readBestMeters, readBestMetersFor, readLegacyBestMeters,
+  submitAttestedScore, waitForScoreConfirmation, getNextTokenId, mintRunNft, sendEthTip, clearCachedWallet,
 } from "@/lib/onchain";
 import { audioManager } from "@/lib/audio";
 
 const DEFAULT_INJECTED_WALLET = "any" as const;
 const LAST_WALLET_KEY = "jhc_last_wallet_id_v1";
 const TOTAL_RUNS_KEY = "jhc_total_runs_v1";
+const STOCK_UPGRADES = defaultUpgradeLevels(); // daily challenges run without upgrades so everyone is on equal terms
 
 const useClientLayoutEffect = typeof window === "undefined" ? useEffect : useLayoutEffect;
 
@@ -44,13 +51,13 @@ function isLikelyPhoneViewport() {
 }
 
 function clamp01(n: number) { return Math.max(0, Math.min(1, n)); }
-function dailySeedUTC() {
-  const d = new Date();
-  return (Math.floor(Date.UTC(d.getUTCFullYear(), d.getUTCMonth(), d.getUTCDate()) / 86400000)) >>> 0;
-}
 function fmtM(m: number) { return String(Math.max(0, Math.floor(m || 0))); }
 function fmtKmh(kmh: number) { return String(Math.max(0, Math.floor(kmh || 0))); }
+function fmtTime(s: number) { return `${Math.max(0, s || 0).toFixed(1)}s`; }
+function fmtStars(n: number) { return "★".repeat(n) + "☆".repeat(3 - n); }
 function shortHash(h?: string | null) { if (!h) return ""; if (h.length <= 12) return h; return `${h.slice(0, 6)}…${h.slice(-4)}`; }
+// Runs record the wallet connected when they started; only that wallet can save one.
+function recordedFor(rep: Replay | null, addr: string | null) { return Boolean(rep?.player && addr && rep.player.toLowerCase() === addr.toLowerCase()); }
 function humanizeTxErr(err: any) {
   const e = err?.cause ?? err;
   const code = e?.code ?? e?.cause?.code;
@@ -167,18 +174,24 @@ export default function Page() {
   const [selectedMap, setSelectedMap] = useState<MapId>("hills");
 
   const [coins, setCoins] = useState(0);
-  const [garage, setGarage] = useState<UnlockedVehicles>({ jeep: true, bicycle: true });
-  const [allUpgrades, setAllUpgrades] = useState<AllUpgrades>(() => ({
-    jeep: defaultUpgradeLevels(), bicycle: defaultUpgradeLevels(),
-    sportsCar: defaultUpgradeLevels(),
-  }));
+  const [garage, setGarage] = useState<UnlockedVehicles>(freeGarage);
+  const [allUpgrades, setAllUpgrades] = useState<AllUpgrades>(emptyAllUpgrades);
   const [achievements, setAchievements] = useState<UnlockedAchievements>({});
   const [totalRuns, setTotalRuns] = useState(0);
   const [newAch, setNewAch] = useState<{ name: string; emoji: string; reward: number } | null>(null);
 
   const [driverOpen, setDriverOpen] = useState(false);
   const [paused, setPaused] = useState(false);
-  const [seed] = useState<number>(() => dailySeedUTC());
+  const [mode, setMode] = useState<GameMode>("free");
+  const [seed, setSeed] = useState<number>(0);
+  const [dailyDay, setDailyDay] = useState<number>(0);
+  const [freeSeedText, setFreeSeedText] = useState("");
+  const [clockNow, setClockNow] = useState(0); // 0 until mounted, so server and client render the same menu
+  const [dailyRecords, setDailyRecords] = useState<Record<number, DailyRecord>>({});
+  const [dailyResult, setDailyResult] = useState<(DailyRecord & { newBest: boolean }) | null>(null);
+  const [stageId, setStageId] = useState<StageId>("first-climb");
+  const [stageProgress, setStageProgress] = useState<StageProgress>({});
+  const [stageResult, setStageResult] = useState<{ stars: StageStars; newBestTime: boolean; timeS: number; coins: number; fuel01: number } | null>(null);
   const [boostHeld, setBoostHeld] = useState(false);
   const [mini, setMini] = useState<{ isMini: boolean; fid: number | null }>({ isMini: false, fid: null });
   const [phoneViewport, setPhoneViewport] = useState(false);
@@ -195,32 +208,58 @@ export default function Page() {
   const [walletAddr, setWalletAddr] = useState<string | null>(null);
   const [walletSource, setWalletSource] = useState<string>("");
   const [bestOnchainM, setBestOnchainM] = useState<number>(0);
+  const [bestForRunM, setBestForRunM] = useState<number>(0);
   const [scoreBusy, setScoreBusy] = useState(false);
   const [mintBusy, setMintBusy] = useState(false);
   const [connectBusy, setConnectBusy] = useState(false);
   const [scoreTx, setScoreTx] = useState<string | null>(null);
+  const [scoreConfirmedBlock, setScoreConfirmedBlock] = useState<number | null>(null);
   const [mintTx, setMintTx] = useState<string | null>(null);
   const [actionErr, setActionErr] = useState<string>("");
   const [walletModalOpen, setWalletModalOpen] = useState(false);
   const [walletChoices, setWalletChoices] = useState<InjectedWallet[]>([]);
   const [gameOverShot, setGameOverShot] = useState<string | null>(null);
   const [gameOverMeters, setGameOverMeters] = useState<number>(0);
+  const [settlement, setSettlement] = useState<RunSettlement | null>(null);
+  const [lastReplay, setLastReplay] = useState<Replay | null>(null);
+  const [replay, setReplay] = useState<Replay | null>(null);
+  const [verification, setVerification] = useState<RunVerification | null>(null);
+  const verifyRunIdRef = useRef("");
 
   const scoreboardAddress = (process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS ?? "").trim();
+  const legacyScoreboardAddress = (process.env.NEXT_PUBLIC_LEGACY_SCOREBOARD_ADDRESS ?? "").trim();
   const runNftAddress = (process.env.NEXT_PUBLIC_RUNNFT_ADDRESS ?? "").trim();
 
   const [state, setState] = useState<HillClimbState>({
-    distanceM: 0, bestM: 0, coins: 0, fuel: 100, status: "IDLE",
-    rpm01: 0, boost01: 0, speedKmh: 0, airtimeS: 0, flips: 0, toast: "", toastT: 0,
+    runId: "", distanceM: 0, bestM: 0, coins: 0, fuel: 100, fuelMax: 100, status: "IDLE",
+    rpm01: 0, boost01: 0, speedKmh: 0, airtimeS: 0, flips: 0, damage01: 0, toast: "", toastT: 0, timeS: 0, weather: null, cargo: null, ghostGapM: null,
   });
 
   const gameRef = useRef<HillClimbHandle | null>(null);
+  const runStateRef = useRef<HillClimbState>(state);
   const walletRef = useRef<{ provider: any; address: string } | null>(null);
 
   useEffect(() => {
     if (gamePhase === "menu") audioManager.suspend();
   }, [gamePhase]);
 
+  useEffect(() => { runStateRef.current = state; }, [state]);
+
+  useEffect(() => {
+    if (gamePhase !== "menu") return;
+    setClockNow(Date.now());
+    const id = setInterval(() => setClockNow(Date.now()), 1000);
+    return () => clearInterval(id);
+  }, [gamePhase]);
+
+  const today = clockNow > 0 ? utcDay(clockNow) : null;
+  const refreshDailyRecords = (day: number) => {
+    const next: Record<number, DailyRecord> = {};
+    for (let i = 0; i < DAILY_PLAYABLE_DAYS; i++) next[day - i] = loadDailyRecord(day - i);
+    setDailyRecords(next);
+  };
+  useEffect(() => { if (today !== null) refreshDailyRecords(today); }, [today]);
+
   useEffect(() => {
     setHead(loadHead());
     setSelectedVehicle(loadVehicle());
@@ -229,6 +268,7 @@ export default function Page() {
     setGarage(loadGarage());
     setAllUpgrades(loadAllUpgrades());
     setAchievements(loadAchievements());
+    setStageProgress(loadStageProgress());
     try { setTotalRuns(parseInt(localStorage.getItem(TOTAL_RUNS_KEY) ?? "0", 10) || 0); } catch { }
   }, []);
 
@@ -343,8 +383,12 @@ export default function Page() {
 
   const refreshBest = async (address: string) => {
     if (!scoreboardAddress) return;
-    const best = await readBestMeters(scoreboardAddress, address);
-    const bestNum = Number(best);
+    // Overall best across both scoreboards while v1 scores are still being carried over.
+    const [best, legacy] = await Promise.all([
+      readBestMeters(scoreboardAddress, address),
+      readLegacyBestMeters(legacyScoreboardAddress, address).catch(() => 0n),
+    ]);
+    const bestNum = Number(best > legacy ? best : legacy);
     setBestOnchainM(Number.isFinite(bestNum) ? bestNum : 0);
   };
   const labelFromProvider = (p: any) => p?.isMetaMask ? "MetaMask" : p?.isCoinbaseWallet ? "Coinbase" : "Injected wallet";
@@ -404,22 +448,61 @@ export default function Page() {
     try { localStorage.removeItem(LAST_WALLET_KEY); } catch { }
   };
 
+  // Bank whatever the current run earned. Runs already settled at game over are skipped by settleRun.
+  const settleCurrentRun = () => {
+    const s = runStateRef.current;
+    if (s.status === "IDLE") return;
+    const settled = settleRun({ runId: s.runId, coins: s.coins, distanceM: s.distanceM, flips: s.flips });
+    if (settled) setCoins(settled.balance);
+  };
+
+  const onBackToMenu = () => {
+    settleCurrentRun();
+    setReplay(null);
+    audioManager.suspend(); setGamePhase("menu");
+  };
+
   const onTryAgain = () => {
-    setPaused(false); setGameOverShot(null); setGameOverMeters(0);
+    settleCurrentRun();
+    setPaused(false); setGameOverShot(null); setGameOverMeters(0); setSettlement(null);
     setScoreBusy(false); setMintBusy(false); setScoreTx(null); setMintTx(null); setActionErr("");
-    gameRef.current?.reset();
+    setVerification(null); verifyRunIdRef.current = ""; setDailyResult(null); setStageResult(null);
+    if (replay) setReplay(null); // the canvas resets itself when it leaves replay mode
+    else gameRef.current?.reset();
+  };
+
+  // The server re-simulates the recording; only the distance it reproduces can be saved onchain.
+  const verifyRun = async (rec: Replay) => {
+    verifyRunIdRef.current = rec.runId;
+    setVerification(null);
+    let result: RunVerification;
+    try {
+      const resp = await fetch("/api/verify-run", { method: "POST", headers: { "content-type": "application/json" }, body: JSON.stringify({ replay: rec }) });
+      result = (await resp.json()) as RunVerification;
+    } catch {
+      result = { ok: false, reason: "Verification service unavailable" };
+    }
+    if (verifyRunIdRef.current === rec.runId) setVerification(result);
+  };
+
+  const onWatchReplay = () => {
+    if (!lastReplay) return;
+    setPaused(false);
+    setReplay(lastReplay);
   };
 
   const onSubmitScore = async () => {
     try {
       setActionErr(""); setScoreTx(null);
       if (!scoreboardAddress) { setActionErr("Missing NEXT_PUBLIC_SCOREBOARD_ADDRESS in .env.local"); return; }
+      if (!verification?.ok || !lastReplay) { setActionErr("This run has not been verified."); return; }
+      if (!recordedFor(lastReplay, walletAddr)) { setActionErr("Only the wallet connected when the run started can save it."); return; }
       setScoreBusy(true);
-      const addr = walletAddr ?? (await ensureConnected());
-      const meters = Math.max(0, Math.floor(gameOverMeters || state.distanceM));
+      const addr = walletAddr!;
       const w = walletRef.current;
-      const tx = await submitScoreMeters(scoreboardAddress, meters, w ? { provider: w.provider, address: w.address as any } : undefined);
+      const tx = await submitAttestedScore(scoreboardAddress, lastReplay, w ? { provider: w.provider, address: w.address as any } : undefined);
       setScoreTx(tx); await refreshBest(addr);
+      void waitForScoreConfirmation(tx).then(block => { setScoreConfirmedBlock(Number(block)); return refreshBest(addr); }).catch(() => { });
     } catch (e: any) { setActionErr(humanizeTxErr(e)); } finally { setScoreBusy(false); }
   };
 
@@ -460,15 +543,74 @@ export default function Page() {
     setAllUpgrades(prev => { const next = { ...prev, [vid]: { ...prev[vid], [c]: cur + 1 } }; saveAllUpgrades(next); return next; });
   };
 
-  const onGameOver = (p: { snapshotDataUrl: string | null; meters: number; status: "CRASH" | "OUT_OF_FUEL" }) => {
-    setGameOverShot(p.snapshotDataUrl); setGameOverMeters(p.meters);
+  // Cargo runs haul over the day's challenge track, with its map, vehicle and stock upgrades.
+  const daily = mode === "daily" || mode === "cargo" ? dailyChallenge(dailyDay) : null;
+  const cargoRun = mode === "cargo";
+  const stage = mode === "stage" ? STAGES[stageId] : null;
+  const runVehicle = daily?.vehicleId ?? stage?.vehicleId ?? selectedVehicle;
+  const runMap = daily?.mapId ?? stage?.mapId ?? selectedMap;
+  const runBestM = daily ? (dailyRecords[dailyDay]?.bestM ?? 0) : stage ? 0 : bestForRunM;
+
+  // The scoreboard keeps a best per map and vehicle; that is the one a run can beat.
+  useEffect(() => {
+    if (!walletAddr || !scoreboardAddress) { setBestForRunM(0); return; }
+    let alive = true;
+    readBestMetersFor(scoreboardAddress, walletAddr, runMap, runVehicle)
+      .then(b => { if (alive) setBestForRunM(Number(b)); })
+      .catch(() => { });
+    return () => { alive = false; };
+  }, [walletAddr, scoreboardAddress, runMap, runVehicle, bestOnchainM, scoreConfirmedBlock]);
+
+  const onPlayDaily = (day: number) => {
+    setMode("daily"); setDailyDay(day); setSeed(dailyChallenge(day).seed); setDailyResult(null);
+    setGamePhase("playing");
+  };
+  const onPlayDailyCargo = (day: number) => {
+    setMode("cargo"); setDailyDay(day); setSeed(dailyChallenge(day).seed); setDailyResult(null);
+    setGamePhase("playing");
+  };
+  const onPlayStage = (id: StageId) => {
+    if (!isStageUnlocked(stageProgress, id)) return;
+    setMode("stage"); setStageId(id); setSeed(STAGES[id].seed); setDailyResult(null); setStageResult(null);
+    setGamePhase("playing");
+  };
+  const onNextStage = () => {
+    const next = nextStage(stageId);
+    if (!next) return;
+    onTryAgain();
+    setStageId(next); setSeed(STAGES[next].seed);
+  };
+  const onPlayFree = () => {
+    setMode("free"); setSeed(parseSeedInput(freeSeedText) ?? randomSeed()); setDailyResult(null);
+    setGamePhase("playing");
+  };
+
+  const fuel01 = clamp01(state.fuel / Math.max(1, state.fuelMax));
+  const fuelPct = fuel01 * 100;
+  // The depot's distance is only known once the track streams that far; until then it is "300+".
+  const depotM = state.cargo?.depotM ?? null;
+  const depotLabel = depotM !== null ? fmtM(depotM) : `${CARGO_DEPOT_M}+`;
+
+  const onGameOver = (p: HillClimbGameOver) => {
+    setGameOverShot(p.snapshotDataUrl); setGameOverMeters(p.meters); setLastReplay(p.replay);
+    if (mode !== "stage" && mode !== "cargo") void verifyRun(p.replay); // stage and cargo runs are not saved onchain
+    if (mode === "daily") { setDailyResult(recordDailyAttempt(dailyDay, p.runId, p.meters)); refreshDailyRecords(utcDay()); }
+    if (mode === "cargo" && p.status === "FINISHED" && p.cargo) { setDailyResult(recordDailyDelivery(dailyDay, p.cargo.aboard)); refreshDailyRecords(utcDay()); }
+    if (mode === "stage" && p.status === "FINISHED") {
+      const run = { timeS: p.timeS, coins: p.coins, fuel01: p.fuel01 };
+      const r = recordStageFinish(stageId, run);
+      setStageProgress(r.progress); setStageResult({ ...run, stars: r.stars, newBestTime: r.newBestTime });
+    }
+    const delivered = p.status === "FINISHED" && p.cargo ? { delivered: p.cargo.aboard, total: p.cargo.total } : undefined;
+    const settled = settleRun({ runId: p.runId, coins: p.coins, distanceM: p.meters, flips: p.flips, cargo: delivered });
+    if (settled) setSettlement(settled);
     const freshCoins = loadLocalCoins(); setCoins(freshCoins);
     const runs = totalRuns + 1; setTotalRuns(runs);
     try { localStorage.setItem(TOTAL_RUNS_KEY, String(runs)); } catch { }
     const { newly, totalReward } = checkRunAchievements({
-      distanceM: p.meters, coins: state.coins, flips: state.flips,
-      maxSpeedKmh: state.speedKmh, fuelRemaining: state.fuel,
-      map: selectedMap, prevUnlocked: achievements,
+      distanceM: p.meters, coins: p.coins, flips: p.flips,
+      maxSpeedKmh: state.speedKmh, fuelRemaining: fuelPct,
+      map: runMap, prevUnlocked: achievements,
     });
     if (newly.length > 0) {
       const nextAch = { ...achievements }; newly.forEach(id => { nextAch[id] = true; });
@@ -479,10 +621,9 @@ export default function Page() {
     }
   };
 
-  const fuel01 = clamp01(state.fuel / 100);
-  const isEnd = state.status === "CRASH" || state.status === "OUT_OF_FUEL";
-  const beatOnchainBest = isEnd && Math.floor(state.distanceM) > Math.floor(bestOnchainM);
-  const backTheme = BACK_BUTTON_THEMES[selectedMap] ?? BACK_BUTTON_THEMES.hills;
+  const isEnd = state.status === "CRASH" || state.status === "OUT_OF_FUEL" || state.status === "FINISHED" || state.status === "DESTROYED";
+  const beatOnchainBest = isEnd && !cargoRun && Math.floor(state.distanceM) > Math.floor(bestForRunM);
+  const backTheme = BACK_BUTTON_THEMES[runMap] ?? BACK_BUTTON_THEMES.hills;
   const throttleSet = (t: number) => {
     audioManager.init(); // Initialize audio on first control tap
     gameRef.current?.setThrottle(t);
@@ -505,7 +646,21 @@ export default function Page() {
           upgrades={allUpgrades}
           achievements={achievements}
           totalRuns={totalRuns}
-          onPlay={() => setGamePhase("playing")}
+          onPlay={onPlayFree}
+          freeSeedText={freeSeedText}
+          onFreeSeedTextChange={setFreeSeedText}
+          daily={today === null ? null : {
+            msLeft: msUntilNextDay(clockNow),
+            days: Array.from({ length: DAILY_PLAYABLE_DAYS }, (_, i) => {
+              const day = today - i;
+              return { challenge: dailyChallenge(day), label: dailyLabel(day, today), record: dailyRecords[day] ?? { attempts: 0, bestM: 0, bestCargo: 0 } };
+            }),
+          }}
+          onPlayDaily={onPlayDaily}
+          onPlayDailyCargo={onPlayDailyCargo}
+          stageProgress={stageProgress}
+          onPlayStage={onPlayStage}
+          leaderboardRefreshBlock={scoreConfirmedBlock}
           onSelectVehicle={handleSelectVehicle}
           onSelectMap={handleSelectMap}
           onSelectHead={setHead}
@@ -550,32 +705,46 @@ export default function Page() {
             <HillClimbCanvas
               ref={h => { gameRef.current = h; }}
               headId={head}
-              vehicleId={selectedVehicle}
-              mapId={selectedMap}
+              vehicleId={runVehicle}
+              mapId={runMap}
               paused={paused}
               miniMode={immersiveMobileUi}
               seed={seed}
-              bestM={bestOnchainM}
+              stageId={stage?.id ?? null}
+              cargo={cargoRun}
+              upgrades={daily ? STOCK_UPGRADES : allUpgrades[runVehicle]}
+              bestM={runBestM}
               onState={setState}
               onGameOver={onGameOver}
+              replay={replay}
+              player={walletAddr}
             />
 
             {/* HUD */}
             <div className="hud"><div className="hudCard">
-              <div className="hudTop"><div className="bigNum">{fmtM(state.distanceM)}m</div><div className="small">best {fmtM(bestOnchainM)}m</div></div>
-              <div className={"fuelBar " + (state.fuel < 18 ? "fuelLow" : "")}><div className="fuelFill" style={{ width: `${fuel01 * 100}%` }} /></div>
+              <div className="hudTop"><div className="bigNum">{fmtM(state.distanceM)}m</div>{stage
+                ? <div className="small">🏁 {fmtM(stage.finishX)}m · ⏱ {fmtTime(state.timeS)}</div>
+                : cargoRun
+                ? <div className="small">🏭 depot {depotLabel}m</div>
+                : <div className="small">{daily ? "day best" : "best"} {fmtM(runBestM)}m</div>}</div>
+              <div className={"fuelBar " + (fuelPct < 18 ? "fuelLow" : "")}><div className="fuelFill" style={{ width: `${fuel01 * 100}%` }} /></div>
               <div className="hudRow">
-                <div className="tag">⛽ {Math.floor(state.fuel)}%</div>
+                <div className="tag">⛽ {Math.floor(fuelPct)}%</div>
                 <div className="tag">🪙 {state.coins}</div>
+                {state.cargo ? <div className="tag">📦 {state.cargo.aboard}/{state.cargo.total}</div> : null}
+                {state.damage01 >= 0.01 ? <div className="tag">🔧 {Math.round(state.damage01 * 100)}%</div> : null}
                 <div className="tag">⚡ {fmtKmh(state.speedKmh)} km/h</div>
               </div>
+              <div className="hudRow"><div className="tag">{stage ? `🚩 ${stage.name}` : cargoRun && daily ? `📦 Haul · ${dailyLabel(daily.day)}` : daily ? `📅 Daily · ${dailyLabel(daily.day)}` : `🌱 Seed ${seed}`}</div>{replay ? <div className="tag">▶ REPLAY</div> : null}</div>
+              {state.ghostGapM !== null ? <div className="hudRow"><div className="tag">👻 {state.ghostGapM >= 0 ? "+" : "−"}{Math.abs(state.ghostGapM).toFixed(1)}m {state.ghostGapM >= 0 ? "ahead" : "behind"}</div></div> : null}
+              {state.weather ? <WeatherTags w={state.weather} /> : null}
               {state.flips > 0 || state.airtimeS > 0.2 ? <div className="hudRow"><div className="tag">🌀 {state.flips}</div><div className="tag">🕊 {state.airtimeS.toFixed(1)}s</div></div> : null}
             </div></div>
 
             {/* Top-right tools */}
             <div className="topRightTools">
               {!isEnd && (
-                <button type="button" className="mapBackBtn" onClick={() => { audioManager.suspend(); setGamePhase("menu"); }} aria-label="Back to Menu" title="Back to Menu" style={{
+                <button type="button" className="mapBackBtn" onClick={onBackToMenu} aria-label="Back to Menu" title="Back to Menu" style={{
                   background: backTheme.background, borderColor: backTheme.borderColor, boxShadow: backTheme.shadow, color: backTheme.color,
                 }}>
                   <svg width="20" height="20" viewBox="0 0 24 24" fill="none" aria-hidden="true">
@@ -651,33 +820,74 @@ export default function Page() {
             />
 
             {state.toastT > 0 && state.toast ? <div className="toast">{state.toast}</div> : null}
-            {state.status !== "RUN" && !isEnd ? <div className="centerHint">Tap GAS to start</div> : null}
+            {state.status !== "RUN" && !isEnd && !replay ? <div className="centerHint">Tap GAS to start</div> : null}
 
             {isEnd ? (
               <div className="endScreen"><div className="endCard">
-                <div className="endTitle">{state.status === "CRASH" ? "CRASH!" : "OUT OF FUEL"}</div>
-                <div className="endSub">{fmtM(state.distanceM)}m • best {fmtM(bestOnchainM)}m{beatOnchainBest ? " • NEW BEST (pending onchain)" : ""}</div>
+                <div className="endTitle">{state.status === "FINISHED" ? (cargoRun ? "DELIVERED!" : "FINISHED!") : state.status === "CRASH" ? "CRASH!" : state.status === "DESTROYED" ? "WRECKED!" : "OUT OF FUEL"}</div>
+                {stage ? (
+                  <>
+                    <div className="endSub">🚩 {stage.name}{stageResult
+                      ? ` • ${fmtTime(stageResult.timeS)}${stageResult.newBestTime ? " • NEW BEST TIME" : ""}`
+                      : ` • ${fmtM(state.distanceM)}/${fmtM(stage.finishX)}m`}</div>
+                    {stageResult ? (() => {
+                      const [time, coinsMet, fuelMet] = stageGoalsMet(stage, stageResult);
+                      return (<>
+                        <div className="endStars">{fmtStars(stageResult.stars)}</div>
+                        <div className="endSettle">
+                          <span>{time ? "✅" : "▫️"} ⏱ under {stage.goals.timeS}s</span>
+                          <span>{coinsMet ? "✅" : "▫️"} 🪙 {stage.goals.coins}+ coins</span>
+                          <span>{fuelMet ? "✅" : "▫️"} ⛽ {stage.goals.fuelPct}%+ fuel left</span>
+                        </div>
+                      </>);
+                    })() : null}
+                  </>
+                ) : cargoRun ? (
+                  <div className="endSub">{state.status === "FINISHED"
+                    ? `📦 ${state.cargo?.aboard ?? 0}/${state.cargo?.total ?? 0} crates delivered`
+                    : `📦 nothing delivered • ${fmtM(state.distanceM)}/${depotLabel}m`}</div>
+                ) : <div className="endSub">{fmtM(state.distanceM)}m • best {fmtM(bestForRunM)}m{beatOnchainBest ? " • NEW BEST (pending onchain)" : ""}</div>}
+                {stage ? null : cargoRun && daily ? (
+                  <div className="endSub">📅 {dailyLabel(daily.day)}’s haul{dailyResult ? ` • day best ${dailyResult.bestCargo} delivered${dailyResult.newBest ? " • NEW DAY BEST" : ""}` : ""}</div>
+                ) : daily ? (
+                  <div className="endSub">📅 {dailyLabel(daily.day)}’s challenge{dailyResult ? ` • attempt ${dailyResult.attempts} • day best ${dailyResult.bestM}m${dailyResult.newBest ? " • NEW DAY BEST" : ""}` : ""}</div>
+                ) : <div className="endSub">🌱 Seed {seed}</div>}
+                {settlement ? (
+                  <div className="endSettle">
+                    <span>🪙 {settlement.collected} collected</span>
+                    {settlement.distanceBonus > 0 ? <span>+{settlement.distanceBonus} distance</span> : null}
+                    {settlement.flipBonus > 0 ? <span>+{settlement.flipBonus} flips</span> : null}
+                    {settlement.deliveryBonus > 0 ? <span>+{settlement.deliveryBonus} delivery</span> : null}
+                    <strong>= {settlement.total} banked</strong>
+                  </div>
+                ) : null}
                 <div className="endShotWrap">{gameOverShot ? <img className="endShot" src={gameOverShot} alt="Run snapshot" /> : <div className="endShotPlaceholder">Snapshot</div>}</div>
-                <div className="endOnchain">
+                {stage || cargoRun ? null : <div className="endOnchain">
                   <div className="endOnchainTitle">Onchain (optional)</div>
                   <div className="endOnchainRow"><div className="endOnchainMeta">
                     <div className="endOnchainLine">Network: Base mainnet</div>
                     <div className="endOnchainLine">Wallet: {walletAddr ?? "Not connected"}{walletAddr && walletSource ? ` (${walletSource})` : ""}</div>
                     {!scoreboardAddress || !runNftAddress ? <div className="endOnchainWarn">Set contract addresses in .env.local to enable.</div> : null}
+                    {!verification ? <div className="endOnchainLine">Verifying run…</div> : verification.ok
+                      ? <div className="endOnchainOk">Verified: {verification.meters}m</div>
+                      : <div className="endOnchainWarn">Not verified: {verification.reason}</div>}
+                    {verification?.ok && lastReplay && !recordedFor(lastReplay, walletAddr) ? <div className="endOnchainWarn">{lastReplay.player ? "Recorded for another wallet; only it can save this run." : "Connect a wallet before the run to save its score."}</div> : null}
                     {scoreTx ? <div className="endOnchainOk">Score tx: {shortHash(scoreTx)}</div> : null}
                     {mintTx ? <div className="endOnchainOk">Mint tx: {shortHash(mintTx)}</div> : null}
                     {actionErr ? <div className="endOnchainErr">{actionErr}</div> : null}
                   </div></div>
                   <div className="endOnchainBtns">
                     {!walletAddr ? <button type="button" className="actionBtn btnDark" disabled={scoreBusy || mintBusy || connectBusy} onClick={() => void onConnectWalletClick()}>{connectBusy ? "Connecting…" : "Connect wallet"}</button> : null}
-                    <button type="button" className="actionBtn btnDark" disabled={scoreBusy || mintBusy || !scoreboardAddress || connectBusy} onClick={onSubmitScore}>{scoreBusy ? "Submitting…" : "Save score onchain"}</button>
+                    <button type="button" className="actionBtn btnDark" disabled={scoreBusy || mintBusy || !scoreboardAddress || connectBusy || !verification?.ok || !recordedFor(lastReplay, walletAddr)} onClick={onSubmitScore}>{scoreBusy ? "Submitting…" : "Save score onchain"}</button>
                     <button type="button" className="actionBtn btnDark" disabled={scoreBusy || mintBusy || !runNftAddress || !gameOverShot || connectBusy} onClick={onMintNft}>{mintBusy ? "Minting…" : "Mint run NFT"}</button>
                   </div>
-                </div>
+                </div>}
                 <div className="endBtns">
-                  <button type="button" className="actionBtn btnPrimary" onClick={onTryAgain}>Try again</button>
+                  {stage && stageResult && nextStage(stage.id) ? <button type="button" className="actionBtn btnPrimary" onClick={onNextStage}>Next stage ›</button> : null}
+                  <button type="button" className={"actionBtn " + (stage && stageResult && nextStage(stage.id) ? "btnDark" : "btnPrimary")} onClick={onTryAgain}>Try again</button>
+                  {lastReplay ? <button type="button" className="actionBtn btnDark" onClick={onWatchReplay}>Watch replay</button> : null}
                   <button type="button" className="actionBtn btnDark" onClick={doShare}>Share</button>
-                  <button type="button" className="actionBtn btnDark" onClick={() => { audioManager.suspend(); setGamePhase("menu"); }}>← Menu</button>
+                  <button type="button" className="actionBtn btnDark" onClick={onBackToMenu}>← Menu</button>
                 </div>
               </div></div>
             ) : null}
@@ -697,6 +907,21 @@ export default function Page() {
   );
 }
 
+// One HUD row for the run's weather: what it is doing now and what it does to the car.
+function WeatherTags({ w }: { w: WeatherReading }) {
+  const strength = w.intensity01 > 0.7 ? "Heavy" : w.intensity01 > 0.4 ? "Steady" : "Light";
+  return (
+    <div className="hudRow">
+      {w.kind === "sandstorm" ? <div className="tag">🌪️ {strength} sandstorm</div> : null}
+      {w.kind === "snowfall" ? <div className="tag">❄️ {strength} snow</div> : null}
+      {w.kind === "moondust" ? <div className="tag">🌑 {strength} dust</div> : null}
+      {Math.abs(w.wind) > 0.15 ? <div className="tag">💨 Gust {w.wind > 0 ? "→" : "←"}</div> : null}
+      {w.grip01 < 0.995 ? <div className="tag">🛞 Grip {Math.round(w.grip01 * 100)}%</div> : null}
+      {w.visibility01 < 0.9 ? <div className="tag">🌫️ View {Math.round(w.visibility01 * 100)}%</div> : null}
+    </div>
+  );
+}
+
 function Gauge({ label, value01 }: { label: string; value01: number }) {
   const deg = -120 + value01 * 240;
   return <div className="gauge"><div className="gaugeFace" /><div className="needle" style={{ transform: `translateX(-50%) rotate(${deg}deg)` }} /><div className="gaugeCap" /><div className="gaugeLabel">{label}</div></div>;
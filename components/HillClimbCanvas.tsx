@@ -2,24 +2,37 @@
 
 import React, { forwardRef, useEffect, useImperativeHandle, useRef } from "react";
 import planck from "planck-js";
+import type { Address } from "viem";
 import { HeadId, HEADS } from "@/lib/heads";
-import { VehicleId, VEHICLES } from "@/lib/vehicles";
+import { VehicleId, VEHICLES, VehiclePhysics, VehicleRig, halfWheelbase } from "@/lib/vehicles";
 import { MapId, MAPS, MapConfig } from "@/lib/maps";
+import { UpgradeLevels, defaultUpgradeLevels } from "@/lib/upgrades";
+import type { StageId } from "@/lib/stages";
+import type { WeatherReading } from "@/lib/weather";
+import { Sky, skyAt } from "@/lib/dayCycle";
 import { audioManager } from "@/lib/audio";
+import { Bridge, DT, HZ, GameSimulation, HillClimbState as SimState, Obstacle, SimInput, Track, TrackFeature, CarRig, mulberry32, sampleTrackY } from "@/lib/simulation";
+import { Ghost, GhostFrame, GhostPose, GHOST_SAMPLE_EVERY, ghostFrame, ghostKey, loadGhost, sampleGhost, saveGhostIfBest } from "@/lib/ghost";
+import { Driver, LIMB_SIZE, Limb, SKULL_R } from "@/lib/ragdoll";
+import { Cargo, CRATE_HW, TRAILER, Trailer } from "@/lib/cargo";
+import { Replay, createReplay, createReplayPlayer, createReplaySimulation, quantizeInput, recordPause, stepRecording } from "@/lib/replay";
+
+// What the HUD sees: the simulation state plus renderer-side extras.
+export type HillClimbState = SimState & {
+  ghostGapM: number | null; // metres ahead (+) or behind (-) the best ghost on this seed/map/vehicle
+};
 
-export type HillClimbState = {
-  distanceM: number;
-  bestM: number;
+export type HillClimbGameOver = {
+  snapshotDataUrl: string | null;
+  meters: number;
+  status: "CRASH" | "OUT_OF_FUEL" | "FINISHED" | "DESTROYED";
+  runId: string;
   coins: number;
-  fuel: number;
-  status: "IDLE" | "RUN" | "CRASH" | "OUT_OF_FUEL";
-  rpm01: number;
-  boost01: number;
-  speedKmh: number;
-  airtimeS: number;
   flips: number;
-  toast: string;
-  toastT: number;
+  timeS: number;
+  fuel01: number;   // tank left at the end, 0..1
+  cargo: { aboard: number; total: number } | null;   // crates still aboard, on cargo runs
+  replay: Replay;
 };
 
 export type HillClimbHandle = {
@@ -30,22 +43,11 @@ export type HillClimbHandle = {
 
 const Vec2 = planck.Vec2;
 let SCALE = 45;
-const HZ = 60;
-const DT = 1 / HZ;
-const VEL_ITERS = 8;
-const POS_ITERS = 3;
-
-const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
-const clamp01 = (v: number) => clamp(v, 0, 1);
-const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
-
-const TRACK_X0 = -40;
-const TRACK_X1 = 1800;
-const TRACK_DX = 0.25;
-const JEEP_BODY_SRC = "/assets/vehicles/jeep_body.png";
-const JEEP_WHEEL_SRC = "/assets/vehicles/jeep_wheel.png";
-const SPORTS_CAR_BODY_SRC = "/assets/vehicles/sports_car_body.png";
-const SPORTS_CAR_WHEEL_SRC = "/assets/vehicles/sports_car_wheel.png";
+
+type VehicleArtImages = { body: HTMLImageElement; wheel: HTMLImageElement };
+
+// A crash waits this long before the Run NFT snapshot, so it shows where the thrown driver landed.
+const CRASH_SHOT_TICKS = Math.round(HZ * 1.0);
 
 const JEEP_REAR_WHEEL_X_PCT = 0.213;
 const JEEP_FRONT_WHEEL_X_PCT = 0.755;
@@ -65,170 +67,6 @@ function isPhoneSizedViewport(cssW: number, cssH: number) {
   return shortEdge <= 520 || (coarsePointer && shortEdge <= 620);
 }
 
-type Track = { xs: number[]; ys: number[] };
-
-function mulberry32(seed: number) {
-  return function () {
-    let t = (seed += 0x6d2b79f5);
-    t = Math.imul(t ^ (t >>> 15), t | 1);
-    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
-    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
-  };
-}
-
-function buildTrack(seed = 1337): Track {
-  const rnd = mulberry32(seed);
-  const xs: number[] = [];
-  const ys: number[] = [];
-
-  type SegKind = "flat" | "roll" | "hill";
-  const smooth01 = (t: number) => {
-    const u = clamp01(t);
-    return u * u * (3 - 2 * u);
-  };
-
-  let x = TRACK_X0;
-  let y = 0.86;
-  let lastDy = 0;
-  let kind: SegKind = "flat";
-  let segLen = 24;
-  let segT = 0;
-  let y0 = y;
-  let y1 = y;
-  let bump = 0;
-  let phase = rnd() * Math.PI * 2;
-
-  const SLOPE_KIND_MUL: Record<SegKind, number> = { flat: 1, roll: 1.08, hill: 1.16 };
-
-  const chooseSeg = (d: number) => {
-    const diff = clamp01((d - 2) / 160);
-    if (d < 25) {
-      kind = "hill";
-    } else if (d < 60) {
-      kind = rnd() < 0.15 ? "roll" : "hill";
-    } else {
-      const wFlat = 0.08, wRoll = 0.32, wHill = 0.60 + 0.32 * diff;
-      const r = rnd() * (wFlat + wRoll + wHill);
-      if (r < wFlat) kind = "flat";
-      else if (r < wFlat + wRoll) kind = "roll";
-      else kind = "hill";
-    }
-
-    const baseline = 0.95 + 0.35 * diff;
-    const basePull = (baseline - y) * (kind === "hill" ? 0.55 : 0.80);
-
-    if (kind === "flat") {
-      y1 = y0 + basePull + (rnd() * 2 - 1) * 0.10;
-      bump = 0;
-      segLen = 10 + rnd() * 18;
-    } else if (kind === "roll") {
-      y1 = y0 + basePull + (rnd() * 2 - 1) * (0.34 + 0.20 * diff);
-      bump = 0.55 + rnd() * (0.75 + 0.40 * diff);
-      segLen = 14 + rnd() * 22;
-      // Ensure smooth slope: max sine derivative is bump * 2 * PI / segLen
-      segLen = Math.max(segLen, bump * 12); 
-    } else {
-      y1 = y0 + basePull + (rnd() * 2 - 1) * (1.10 + 0.95 * diff);
-      bump = 1.60 + rnd() * (2.35 + 1.75 * diff);
-      if (rnd() < 0.30 + 0.20 * diff) bump *= 1.35;
-      segLen = 18 + rnd() * 44;
-      // Ensure smooth slope: max sine derivative is bump * PI / segLen. We limit slope to ~0.35.
-      segLen = Math.max(segLen, bump * 10);
-    }
-
-    segT = 0;
-    y0 = y;
-    phase = rnd() * Math.PI * 2;
-  };
-
-  chooseSeg(0);
-
-  while (x <= TRACK_X1) {
-    const d = x - TRACK_X0;
-    if (segT >= segLen) chooseSeg(d);
-
-    const startEase = clamp01(d / 20); // 20 meters of gentle start
-    const diff = clamp01((d - 10) / 220);
-    const easy = 1 - clamp01((d - 2) / 40);
-
-    const slopeKindMul = SLOPE_KIND_MUL[kind];
-    const slopeMaxBase = (0.28 * easy) + (0.44 + 0.52 * diff) * (1 - easy);
-    const slopeMax = clamp(slopeMaxBase * (0.40 + 0.60 * startEase) * slopeKindMul, 0.08, 0.42); 
-    const maxStep = slopeMax * TRACK_DX;
-    const curvMax = (0.020 + 0.026 * diff) * TRACK_DX;
-
-    const u = clamp01(segT / Math.max(0.001, segLen));
-    const su = smooth01(u);
-    let targetY = y0 + (y1 - y0) * su;
-
-    if ((kind as SegKind) === "roll") {
-      targetY += bump * Math.sin(u * Math.PI * 2 + phase);
-    } else if ((kind as SegKind) === "hill") {
-      targetY += bump * Math.sin(u * Math.PI);
-    }
-
-    const micro = (Math.sin((x + 12.3) * 0.85) * 0.012 + Math.sin((x - 7.1) * 1.95) * 0.005) * startEase;
-    targetY += micro;
-
-    let dy = clamp(targetY - y, -maxStep, maxStep);
-    dy = clamp(dy, lastDy - curvMax, lastDy + curvMax);
-    lastDy = dy;
-
-    y = clamp(y + dy, -0.55, 4.9);
-    xs.push(x);
-    ys.push(y);
-
-    x += TRACK_DX;
-    segT += TRACK_DX;
-  }
-
-  for (let k = 0; k < 2; k++) {
-    for (let i = 1; i < ys.length - 1; i++) {
-      ys[i] = ys[i] * 0.50 + (ys[i - 1] + ys[i + 1]) * 0.25;
-    }
-  }
-
-  const PAD_X0 = -4, PAD_X1 = 8, PAD_BLEND = 25; // Blended over 25 meters instead of 3!
-  const i0 = Math.max(0, Math.min(ys.length - 1, Math.round((0 - TRACK_X0) / TRACK_DX)));
-  const yPad = ys[i0];
-
-  for (let i = 0; i < xs.length; i++) {
-    const xx = xs[i];
-    if (xx >= PAD_X0 && xx <= PAD_X1) {
-      ys[i] = yPad;
-    } else if (xx > PAD_X0 - PAD_BLEND && xx < PAD_X0) {
-      const t = smooth01((xx - (PAD_X0 - PAD_BLEND)) / PAD_BLEND);
-      ys[i] = ys[i] * (1 - t) + yPad * t;
-    } else if (xx > PAD_X1 && xx < PAD_X1 + PAD_BLEND) {
-      const t = smooth01((xx - PAD_X1) / PAD_BLEND);
-      ys[i] = yPad * (1 - t) + ys[i] * t;
-    }
-  }
-
-  return { xs, ys };
-}
-
-function sampleTrackY(track: Track, x: number) {
-  if (x <= track.xs[0]) return track.ys[0];
-  if (x >= track.xs[track.xs.length - 1]) return track.ys[track.ys.length - 1];
-  const i = Math.floor((x - TRACK_X0) / TRACK_DX);
-  const i0 = Math.max(0, Math.min(track.xs.length - 2, i));
-  const x0 = track.xs[i0], x1 = track.xs[i0 + 1];
-  const y0 = track.ys[i0], y1 = track.ys[i0 + 1];
-  const u = (x - x0) / (x1 - x0);
-  return y0 + (y1 - y0) * u;
-}
-
-type Pickup = { kind: "coin" | "fuel"; x: number; y: number; value: number; taken?: boolean };
-
-type CarRig = {
-  chassis: planck.Body;
-  wheel1: planck.Body;
-  wheel2: planck.Body;
-  spring1: planck.WheelJoint;
-  spring2: planck.WheelJoint;
-};
-
 export const HillClimbCanvas = forwardRef<
   HillClimbHandle,
   {
@@ -238,64 +76,74 @@ export const HillClimbCanvas = forwardRef<
     paused: boolean;
     miniMode?: boolean;
     seed?: number;
+    upgrades?: UpgradeLevels;
+    stageId?: StageId | null;
+    cargo?: boolean;
     onState: (s: HillClimbState) => void;
     bestM?: number;
-    onGameOver?: (p: { snapshotDataUrl: string | null; meters: number; status: "CRASH" | "OUT_OF_FUEL" }) => void;
+    onGameOver?: (p: HillClimbGameOver) => void;
+    // When set, the canvas plays this recording back instead of reading the pedals.
+    replay?: Replay | null;
+    // Connected wallet, stamped on each new recording so only it can save the run.
+    player?: string | null;
   }
 >(function HillClimbCanvas(props, ref) {
-  const { headId, vehicleId, mapId, paused, miniMode, seed, onState, bestM, onGameOver } = props;
+  const { headId, vehicleId, mapId, paused, miniMode, seed, upgrades, stageId, cargo, onState, bestM, onGameOver, replay, player } = props;
 
   const canvasRef = useRef<HTMLCanvasElement | null>(null);
 
   const pausedRef = useRef(paused);
   const headIdRef = useRef(headId);
+  const playerRef = useRef(player ?? null);
   const vehicleIdRef = useRef(vehicleId);
   const mapIdRef = useRef(mapId);
+  const stageIdRef = useRef<StageId | null>(stageId ?? null);
+  const cargoRef = useRef(Boolean(cargo));
   const miniModeRef = useRef(Boolean(miniMode));
+  const upgradesRef = useRef<UpgradeLevels>(upgrades ?? defaultUpgradeLevels());
 
   const throttleTargetRef = useRef(0);
-  const throttleRef = useRef(0);
   const boostHeldRef = useRef(false);
   const camRef = useRef({ x: 0, y: 0 });
 
   const bestRef = useRef(0);
-  const groundedRef = useRef({ w1: 0, w2: 0 });
-  const crashFreezeRef = useRef({ t: 0, frozen: false });
-  const upsideCrashRef = useRef(0);
-
-  const worldRef = useRef<planck.World | null>(null);
-  const carRef = useRef<CarRig | null>(null);
-  const pickupsRef = useRef<Pickup[]>([]);
-  const trackRef = useRef<Track>(buildTrack());
+  const simRef = useRef<GameSimulation | null>(null);
+  const recordingRef = useRef<Replay | null>(null);
+  const replayRef = useRef<Replay | null>(replay ?? null);
+  const replayInputRef = useRef<((tick: number) => SimInput) | null>(null);
+  const ghostRef = useRef<Ghost | null>(null);
+  const ghostFramesRef = useRef<GhostFrame[]>([]);
+  const ghostGapRef = useRef<number | null>(null);
+  const runStartTickRef = useRef<number | null>(null);
   const seedRef = useRef<number>(1337);
 
   const timeRef = useRef(0);
   const snapshotRef = useRef<string | null>(null);
   const lastSnapTRef = useRef(0);
-  const lastEndStatusRef = useRef<"CRASH" | "OUT_OF_FUEL" | null>(null);
+  const lastEndStatusRef = useRef<HillClimbGameOver["status"] | null>(null);
+  const pendingGameOverRef = useRef<{ atTick: number; payload: Omit<HillClimbGameOver, "snapshotDataUrl"> } | null>(null);
 
-  const airRef = useRef<{ active: boolean; t: number; acc: number; lastAngle: number; flipCount: number; }>({ active: false, t: 0, acc: 0, lastAngle: 0, flipCount: 0 });
   const headImgRef = useRef<HTMLImageElement | null>(null);
   const headImg2Ref = useRef<HTMLImageElement | null>(null);
-  const jeepBodyImgRef = useRef<HTMLImageElement | null>(null);
-  const jeepWheelImgRef = useRef<HTMLImageElement | null>(null);
-  const sportsCarBodyImgRef = useRef<HTMLImageElement | null>(null);
-  const sportsCarWheelImgRef = useRef<HTMLImageElement | null>(null);
+  const artImgsRef = useRef<Partial<Record<VehicleId, VehicleArtImages>>>({});
   const viewportRef = useRef({ cssW: 0, cssH: 0, isPhone: false });
 
-  const stateRef = useRef<HillClimbState>({
-    distanceM: 0, bestM: 0, coins: 0, fuel: 100, status: "IDLE",
-    rpm01: 0, boost01: 0, speedKmh: 0, airtimeS: 0, flips: 0, toast: "", toastT: 0,
+  const stateRef = useRef<SimState>({
+    runId: "", distanceM: 0, bestM: 0, coins: 0, fuel: 100, fuelMax: 100, status: "IDLE",
+    rpm01: 0, boost01: 0, speedKmh: 0, airtimeS: 0, flips: 0, damage01: 0, toast: "", toastT: 0, timeS: 0, weather: null, cargo: null,
   });
 
   useEffect(() => { pausedRef.current = paused; }, [paused]);
   useEffect(() => { miniModeRef.current = Boolean(miniMode); }, [miniMode]);
   useEffect(() => { headIdRef.current = headId; }, [headId]);
+  useEffect(() => { playerRef.current = player ?? null; }, [player]);
+  // Upgrades bought between runs are picked up by the next reset(); the live run keeps its physics.
+  useEffect(() => { upgradesRef.current = upgrades ?? defaultUpgradeLevels(); }, [upgrades]);
 
   const updateScaleForViewport = (cssW: number, cssH: number) => {
     const isPhone = miniModeRef.current || isPhoneSizedViewport(cssW, cssH);
     const isSportsCarDesktop =
-      vehicleIdRef.current === "sportsCar" && !isPhone && cssW >= SPORTS_CAR_DESKTOP_MIN_CSS_W;
+      (simRef.current?.vehicleId ?? vehicleIdRef.current) === "sportsCar" && !isPhone && cssW >= SPORTS_CAR_DESKTOP_MIN_CSS_W;
 
     const targetWorldWidthM = isPhone
       ? 18
@@ -311,18 +159,30 @@ export const HillClimbCanvas = forwardRef<
   };
 
   useEffect(() => {
-    if (vehicleIdRef.current !== vehicleId || mapIdRef.current !== mapId || seedRef.current !== resolveSeed()) {
+    if (
+      vehicleIdRef.current !== vehicleId || mapIdRef.current !== mapId || seedRef.current !== resolveSeed() ||
+      stageIdRef.current !== (stageId ?? null) || cargoRef.current !== Boolean(cargo)
+    ) {
       vehicleIdRef.current = vehicleId;
       mapIdRef.current = mapId;
+      stageIdRef.current = stageId ?? null;
+      cargoRef.current = Boolean(cargo);
       reset();
     }
-  }, [vehicleId, mapId, seed]);
+  }, [vehicleId, mapId, seed, stageId, cargo]);
+
+  useEffect(() => {
+    if (replayRef.current === (replay ?? null)) return;
+    replayRef.current = replay ?? null;
+    reset();
+  }, [replay]);
 
   useEffect(() => {
     const bm = typeof bestM === "number" && Number.isFinite(bestM) ? bestM : 0;
     bestRef.current = bm;
+    if (simRef.current) simRef.current.bestM = bm;
     stateRef.current.bestM = bm;
-    onState({ ...stateRef.current });
+    onState({ ...stateRef.current, ghostGapM: ghostGapRef.current });
   }, [bestM, onState]);
 
   const resolveSeed = () => {
@@ -332,163 +192,71 @@ export const HillClimbCanvas = forwardRef<
 
   const reset = () => {
     throttleTargetRef.current = 0;
-    throttleRef.current = 0;
     boostHeldRef.current = false;
     snapshotRef.current = null;
     lastSnapTRef.current = 0;
     lastEndStatusRef.current = null;
+    pendingGameOverRef.current = null;
 
     seedRef.current = resolveSeed();
     const bm = typeof bestM === "number" && Number.isFinite(bestM) ? bestM : 0;
     bestRef.current = bm;
-    groundedRef.current = { w1: 0, w2: 0 };
-    crashFreezeRef.current = { t: 0, frozen: false };
-    upsideCrashRef.current = 0;
-    airRef.current = { active: false, t: 0, acc: 0, lastAngle: 0, flipCount: 0 };
-
-    stateRef.current = {
-      distanceM: 0, bestM: bestRef.current, coins: 0, fuel: 100, status: "IDLE",
-      rpm01: 0, boost01: 0, speedKmh: 0, airtimeS: 0, flips: 0, toast: "", toastT: 0,
-    };
-
-    buildWorld();
-    onState({ ...stateRef.current });
-  };
-
-  const buildWorld = () => {
-    const mConfig = MAPS[mapIdRef.current];
-    const track = buildTrack(seedRef.current ^ mConfig.seedOffset);
-    trackRef.current = track;
-
-    const world = new planck.World(Vec2(0, mConfig.gravity));
-    worldRef.current = world;
-
-    groundedRef.current = { w1: 0, w2: 0 };
-    crashFreezeRef.current = { t: 0, frozen: false };
-    upsideCrashRef.current = 0;
-    airRef.current = { active: false, t: 0, acc: 0, lastAngle: 0, flipCount: 0 };
 
-    const ground = world.createBody();
-    ground.setUserData({ kind: "ground" });
-
-    const pts: planck.Vec2[] = [];
-    for (let i = 0; i < track.xs.length; i++) pts.push(Vec2(track.xs[i], track.ys[i]));
-
-    ground.createFixture(planck.Chain(pts, false), { friction: mConfig.groundFriction });
-    ground.createFixture(planck.Edge(Vec2(TRACK_X0 - 200, -18), Vec2(TRACK_X1 + 200, -18)), { friction: 0.9 });
-
-    const spawnX = 0;
-    const groundY0 = sampleTrackY(track, spawnX);
-    const vPhys = VEHICLES[vehicleIdRef.current].physics;
-    const spawnY = groundY0 + vPhys.spawnY;
-
-    const chassis = world.createDynamicBody({
-      position: Vec2(spawnX, spawnY),
-      angularDamping: vPhys.chassisAngularDamping,
-      linearDamping: vPhys.chassisLinearDamping,
-      bullet: true,
-    });
-    chassis.setUserData({ kind: "chassis" });
-
-    if (vehicleIdRef.current === "bicycle") {
-      chassis.createFixture(planck.Box(0.5, 0.1), { density: vPhys.chassisDensity, friction: 0.25 });
-      chassis.createFixture(planck.Box(0.1, 0.3, Vec2(-0.2, 0.2), 0), { density: vPhys.chassisDensity });
-    } else if (vehicleIdRef.current === "sportsCar") {
-      chassis.createFixture(planck.Box(1.2, 0.15), { density: vPhys.chassisDensity, friction: 0.25 });
-      chassis.createFixture(planck.Box(0.6, 0.15, Vec2(-0.2, 0.2), 0), { density: vPhys.chassisDensity * 0.5 });
+    const playback = replayRef.current;
+    let sim: GameSimulation;
+    if (playback) {
+      sim = createReplaySimulation(playback);
+      sim.bestM = bm;
+      recordingRef.current = null;
+      replayInputRef.current = createReplayPlayer(playback);
     } else {
-      // Jeep-only chassis retune: keep the heavy lower rail above the wheel line so the body no longer feels sunk into the tires.
-      chassis.createFixture(planck.Box(1.18, 0.20, Vec2(0.00, 0.03), 0), { density: vPhys.chassisDensity, friction: 0.30 });
-      chassis.createFixture(planck.Box(0.50, 0.20, Vec2(-0.18, 0.36), 0), { density: vPhys.chassisDensity * 0.55, friction: 0.28 });
-      chassis.createFixture(planck.Box(0.72, 0.08, Vec2(0.03, -0.16), 0), { density: vPhys.chassisDensity * 1.25, friction: 0.35 });
+      sim = new GameSimulation({
+        seed: seedRef.current,
+        mapId: mapIdRef.current,
+        vehicleId: vehicleIdRef.current,
+        upgrades: upgradesRef.current,
+        bestM: bm,
+        stageId: stageIdRef.current ?? undefined,
+        cargo: cargoRef.current,
+      });
+      recordingRef.current = createReplay({
+        runId: sim.state.runId, seed: sim.seed, mapId: sim.mapId, vehicleId: sim.vehicleId,
+        headId: headIdRef.current, upgrades: upgradesRef.current, ...(sim.stage ? { stageId: sim.stage.id } : {}), ...(sim.cargo ? { cargo: true } : {}),
+        ...(playerRef.current ? { player: playerRef.current as Address } : {}),
+      });
+      replayInputRef.current = null;
     }
-
-    const wheelRadius = vPhys.wheelRadius;
-    const wheelY0 = groundY0 + wheelRadius + 0.2;
-    const wheel1 = world.createDynamicBody({ position: Vec2(spawnX - vPhys.wheelbase, wheelY0), angularDamping: vPhys.wheelAngularDamping, bullet: true });
-    const wheel2 = world.createDynamicBody({ position: Vec2(spawnX + vPhys.wheelbase, wheelY0), angularDamping: vPhys.wheelAngularDamping, bullet: true });
-    wheel1.setUserData({ kind: "wheel1" });
-    wheel2.setUserData({ kind: "wheel2" });
-
-    wheel1.createFixture(planck.Circle(wheelRadius), { density: vPhys.wheelDensity, friction: vPhys.wheelFriction });
-    wheel2.createFixture(planck.Circle(wheelRadius), { density: vPhys.wheelDensity, friction: vPhys.wheelFriction });
-
-    const axis = Vec2(0, 1);
-    const common = {
-      collideConnected: false,
-      enableMotor: true,
-      motorSpeed: 0,
-      maxMotorTorque: vPhys.maxMotorTorque,
-      frequencyHz: vPhys.suspensionHz,
-      dampingRatio: vPhys.suspensionDamping,
-    };
-
-    const spring1 = world.createJoint(planck.WheelJoint(common as any, chassis, wheel1, wheel1.getPosition(), axis)) as planck.WheelJoint;
-    const spring2 = world.createJoint(planck.WheelJoint(common as any, chassis, wheel2, wheel2.getPosition(), axis)) as planck.WheelJoint;
-
-    carRef.current = { chassis, wheel1, wheel2, spring1, spring2 };
-
-    chassis.setAngle(0);
-    chassis.setAngularVelocity(0);
-
-    world.on("begin-contact", (c: planck.Contact) => {
-      const a = c.getFixtureA().getBody();
-      const b = c.getFixtureB().getBody();
-      const ak = (a.getUserData() as any)?.kind;
-      const bk = (b.getUserData() as any)?.kind;
-
-      if ((ak === "wheel1" && bk === "ground") || (ak === "ground" && bk === "wheel1")) groundedRef.current.w1++;
-      if ((ak === "wheel2" && bk === "ground") || (ak === "ground" && bk === "wheel2")) groundedRef.current.w2++;
-    });
-
-    world.on("end-contact", (c: planck.Contact) => {
-      const a = c.getFixtureA().getBody();
-      const b = c.getFixtureB().getBody();
-      const ak = (a.getUserData() as any)?.kind;
-      const bk = (b.getUserData() as any)?.kind;
-
-      if ((ak === "wheel1" && bk === "ground") || (ak === "ground" && bk === "wheel1")) groundedRef.current.w1 = Math.max(0, groundedRef.current.w1 - 1);
-      if ((ak === "wheel2" && bk === "ground") || (ak === "ground" && bk === "wheel2")) groundedRef.current.w2 = Math.max(0, groundedRef.current.w2 - 1);
-    });
-
-    const prnd = mulberry32((seedRef.current ^ 0x9e3779b9) >>> 0);
-    const pickups: Pickup[] = [];
-
-    for (let i = 12; i <= TRACK_X1 - 40; i += 24) {
-      const jitter = (prnd() * 2 - 1) * 4;
-      const x = i + jitter;
-      const baseY = sampleTrackY(track, x) + 2.05;
-      pickups.push({ kind: "coin", x, y: baseY, value: 1 });
-      pickups.push({ kind: "coin", x: x + 2.0, y: sampleTrackY(track, x + 2.0) + 2.05, value: 1 });
-      pickups.push({ kind: "coin", x: x + 4.0, y: sampleTrackY(track, x + 4.0) + 2.05, value: 1 });
-    }
-
-    for (let i = 32; i <= TRACK_X1 - 60; i += 62) {
-      const jitter = (prnd() * 2 - 1) * 7;
-      const x = i + jitter;
-      const arch = 0.25 * Math.sin((i / 62) * Math.PI);
-      pickups.push({ kind: "fuel", x, y: sampleTrackY(track, x) + 2.05 + arch, value: 35 });
-    }
-    pickupsRef.current = pickups;
-
-    camRef.current.x = spawnX;
-    camRef.current.y = spawnY;
+    simRef.current = sim;
+    // Ghosts race for distance, which means nothing on a stage or cargo run with a finish line.
+    ghostRef.current = playback || sim.stage || sim.cargo ? null : loadGhost(ghostKey(sim.seed, sim.mapId, sim.vehicleId));
+    ghostFramesRef.current = [];
+    ghostGapRef.current = null;
+    runStartTickRef.current = null;
+    stateRef.current = sim.state;
+
+    const spawn = sim.car.chassis.getPosition();
+    camRef.current.x = spawn.x;
+    camRef.current.y = spawn.y;
+    onState({ ...stateRef.current, ghostGapM: ghostGapRef.current });
   };
 
   useEffect(() => {
     const img1 = new Image(); img1.src = HEADS.jesse.src; headImgRef.current = img1;
     const img2 = new Image(); img2.src = HEADS.brian.src; headImg2Ref.current = img2;
-    const jeepBody = new Image(); jeepBody.src = JEEP_BODY_SRC; jeepBodyImgRef.current = jeepBody;
-    const jeepWheel = new Image(); jeepWheel.src = JEEP_WHEEL_SRC; jeepWheelImgRef.current = jeepWheel;
-    const sportsBody = new Image(); sportsBody.src = SPORTS_CAR_BODY_SRC; sportsCarBodyImgRef.current = sportsBody;
-    const sportsWheel = new Image(); sportsWheel.src = SPORTS_CAR_WHEEL_SRC; sportsCarWheelImgRef.current = sportsWheel;
+    for (const v of Object.values(VEHICLES)) {
+      if (!v.visual.art) continue;
+      const body = new Image(); body.src = v.visual.art.body;
+      const wheel = new Image(); wheel.src = v.visual.art.wheel;
+      artImgsRef.current[v.id] = { body, wheel };
+    }
 
     let raf = 0;
     let lastTime = performance.now() / 1000;
     let accumulator = 0;
     let lastEmit = 0;
-    let lastStatus: HillClimbState["status"] = stateRef.current.status;
+    let lastStatus: SimState["status"] = stateRef.current.status;
     let lastToastT = 0;
+    let pausedAt: number | null = null;
 
     const offscreenSnap = document.createElement("canvas");
     const captureSnapshot = () => {
@@ -515,9 +283,8 @@ export const HillClimbCanvas = forwardRef<
       const canvas = canvasRef.current;
       if (!ctx || !canvas) return;
 
-      const world = worldRef.current;
-      const car = carRef.current;
-      if (!world || !car) return;
+      const sim = simRef.current;
+      if (!sim) return;
 
       const rect = canvas.getBoundingClientRect();
       const cssW = Math.max(1, Math.ceil(canvas.clientWidth || rect.width));
@@ -530,30 +297,62 @@ export const HillClimbCanvas = forwardRef<
       timeRef.current = now;
 
       frameTime = Math.min(frameTime, 0.25);
+      if (pausedRef.current) {
+        if (pausedAt === null) pausedAt = now;
+      } else if (pausedAt !== null) {
+        if (recordingRef.current) recordPause(recordingRef.current, sim.tick, (now - pausedAt) * 1000);
+        pausedAt = null;
+      }
       if (!pausedRef.current) {
         accumulator += frameTime;
         while (accumulator >= DT) {
-          stepGame(world, car);
+          stepSim(sim);
           accumulator -= DT;
         }
-        updateCamera(car, frameTime);
+        updateCamera(sim.car, frameTime);
       }
 
-      render(ctx, canvas.width, canvas.height, car, now);
+      render(ctx, canvas.width, canvas.height, sim, now);
 
       const sNow = stateRef.current;
-      if ((sNow.status === "CRASH" || sNow.status === "OUT_OF_FUEL") && lastEndStatusRef.current !== sNow.status) {
-        if (sNow.status === "CRASH") audioManager.playCrash();
+      // Out of fuel only ends the run once the car has rolled to a stop short of any can.
+      if ((sNow.status === "CRASH" || sNow.status === "DESTROYED" || sNow.status === "OUT_OF_FUEL" || sNow.status === "FINISHED") && sim.over && lastEndStatusRef.current !== sNow.status) {
+        const wreck = sNow.status === "CRASH" || sNow.status === "DESTROYED";
+        if (wreck) audioManager.playCrash();
         lastEndStatusRef.current = sNow.status;
+        // stepRecording closed the recording on the run's last step; nothing more goes into it.
+        const recording = recordingRef.current;
+        recordingRef.current = null;
+        if (recording) {
+          if (runStartTickRef.current !== null && !sim.stage && !sim.cargo) {
+            const frames = ghostFramesRef.current;
+            const step = sim.tick - runStartTickRef.current;
+            if (frames.length === 0 || frames[frames.length - 1][0] !== step) frames.push(ghostFrame(step, carPose(sim.car)));
+            saveGhostIfBest({ key: ghostKey(sim.seed, sim.mapId, sim.vehicleId), distanceM: sNow.distanceM, savedAt: Date.now(), frames });
+          }
+          pendingGameOverRef.current = {
+            atTick: sim.tick + (wreck ? CRASH_SHOT_TICKS : 0),
+            payload: {
+              meters: Math.max(0, Math.floor(recording.distanceM)), status: sNow.status,
+              runId: sNow.runId, coins: sNow.coins, flips: sNow.flips, timeS: sNow.timeS, fuel01: sNow.fuel / Math.max(1, sNow.fuelMax),
+              cargo: sNow.cargo ? { aboard: sNow.cargo.aboard, total: sNow.cargo.total } : null, replay: recording,
+            },
+          };
+        }
+      }
+
+      const pending = pendingGameOverRef.current;
+      if (pending && sim.tick >= pending.atTick) {
+        pendingGameOverRef.current = null;
         snapshotRef.current = captureSnapshot() ?? snapshotRef.current;
-        try { onGameOver?.({ snapshotDataUrl: snapshotRef.current, meters: Math.max(0, Math.floor(sNow.distanceM)), status: sNow.status }); } catch { }
+        try { onGameOver?.({ snapshotDataUrl: snapshotRef.current, ...pending.payload }); } catch { }
       }
 
       if (sNow.status === "IDLE" || sNow.status === "RUN") lastEndStatusRef.current = null;
 
       const engineAudible = sNow.status === "RUN" && (
-        Math.abs(throttleRef.current) > 0.03 ||
-        Math.abs(throttleTargetRef.current) > 0.03 ||
+        Math.abs(sim.throttle) > 0.03 ||
+        (!replayInputRef.current && Math.abs(throttleTargetRef.current) > 0.03) ||
         sNow.speedKmh > 1.25
       );
       audioManager.updateEngine(sNow.rpm01, engineAudible);
@@ -562,7 +361,7 @@ export const HillClimbCanvas = forwardRef<
       const emitImportant = sNow.status !== lastStatus || (sNow.toastT > 0 && sNow.toastT !== lastToastT);
       if (emitDue || emitImportant) {
         lastEmit = now; lastStatus = sNow.status; lastToastT = sNow.toastT;
-        onState({ ...sNow });
+        onState({ ...sNow, ghostGapM: ghostGapRef.current });
       }
     };
 
@@ -599,249 +398,27 @@ export const HillClimbCanvas = forwardRef<
     reset,
   }));
 
-  const isGrounded = () => groundedRef.current.w1 + groundedRef.current.w2 > 0;
-
-  const stepGame = (world: planck.World, car: CarRig) => {
-    const s = stateRef.current;
-    const vPhys = VEHICLES[vehicleIdRef.current].physics;
-
-    const target = throttleTargetRef.current;
-    const cur = throttleRef.current;
-    const k = 1 - Math.exp(-10 * DT);
-    throttleRef.current = cur + (target - cur) * k;
-
-    const throttle = throttleRef.current;
-    const grounded = isGrounded();
-
-    if (s.status === "IDLE" && Math.abs(throttle) > 0.02) s.status = "RUN";
-
-    if (s.status === "RUN") {
-      const gas01 = Math.max(0, throttle);
-      const vx = Math.abs(car.chassis.getLinearVelocity().x);
-      s.fuel -= (vPhys.fuelDrainBase + vPhys.fuelDrainThrottle * gas01 + 0.012 * vx * gas01) * DT;
-      if (s.fuel <= 0) {
-        s.fuel = 0; s.status = "OUT_OF_FUEL";
-        throttleTargetRef.current = Math.min(0, throttleTargetRef.current);
-      }
-    }
-
-    const drive = s.status === "OUT_OF_FUEL" ? Math.min(0, throttle) : throttle;
-    const boostActive = s.status === "RUN" && boostHeldRef.current && s.boost01 > 0.03;
-    if (boostActive) s.boost01 = Math.max(0, s.boost01 - 0.75 * DT);
-
-    const forwardMax = vPhys.maxMotorSpeed;
-    const reverseMax = 10;
-    const gr = groundedRef.current;
-    const rearGrounded = gr.w1 > 0, frontGrounded = gr.w2 > 0, groundedAny = rearGrounded || frontGrounded;
-
-    const pitch = car.chassis.getAngle();
-    const pitchAbs = Math.abs(wrapAngle(pitch));
-    const pitchCut = clamp01(1 - Math.max(0, pitchAbs - 1.35) / 0.65);
-    const traction = rearGrounded ? 1 : 0.35;
-
-    let motorSpeed = 0, rearTorque = 0, brakeTorque = 0;
-
-    if (s.status === "IDLE") { rearTorque = 10; }
-
-    if (s.status === "RUN") {
-      if (drive > 0.02) {
-        const speedMul = boostActive ? 1.15 : 1.0;
-        motorSpeed = -(throttle * forwardMax * speedMul);
-        const omega = Math.abs(car.wheel1.getAngularVelocity());
-        const omega01 = clamp01(omega / forwardMax);
-        const powerDrop = 1 - 0.62 * omega01;
-        const max = vPhys.maxMotorTorque;
-        const base = max * 0.35;
-        const boostMul = boostActive ? 1.45 : 1.0;
-        rearTorque = (base + (max - base) * throttle) * powerDrop * traction * pitchCut * boostMul;
-      } else if (drive < -0.02) {
-        const vx = car.chassis.getLinearVelocity().x;
-        const brake = clamp01(-drive);
-        const endoCut = clamp01(1 - Math.max(0, (-pitch) - 0.55) / 0.45);
-        brakeTorque = (vPhys.brakeMaxTorque * brake) * (0.55 + 0.45 * endoCut);
-
-        if (vx > 0.8) { motorSpeed = 0; rearTorque = 0; }
-        else { motorSpeed = brake * reverseMax; rearTorque = 36 * brake * traction; }
-      } else { rearTorque = 7; }
+  // Feeds the held (or replayed) input into the simulation and turns its events into sound and pedal resets.
+  const stepSim = (sim: GameSimulation) => {
+    const playback = replayInputRef.current;
+    const input = playback ? playback(sim.tick) : quantizeInput({ throttle: throttleTargetRef.current, boost: boostHeldRef.current });
+    const recording = recordingRef.current;
+    const events = recording ? stepRecording(sim, recording, input) : sim.step(input);
+
+    // Ghost time starts at the first step out of IDLE, so waiting on the start line costs nothing.
+    if (runStartTickRef.current === null && sim.state.status !== "IDLE") runStartTickRef.current = sim.tick - 1;
+    const start = runStartTickRef.current;
+    if (start !== null && sim.state.status === "RUN") {
+      const step = sim.tick - start;
+      if (recording && step % GHOST_SAMPLE_EVERY === 0) ghostFramesRef.current.push(ghostFrame(step, carPose(sim.car)));
+      const ghost = ghostRef.current;
+      const gp = ghost ? sampleGhost(ghost, step) : null;
+      ghostGapRef.current = gp ? sim.car.chassis.getPosition().x - gp.x : null;
     }
-
-    if (s.status === "OUT_OF_FUEL" && drive < -0.02) {
-      const vx = car.chassis.getLinearVelocity().x;
-      const brake = clamp01(-drive);
-      const endoCut = clamp01(1 - Math.max(0, (-pitch) - 0.55) / 0.45);
-      brakeTorque = (vPhys.brakeMaxTorque * brake) * (0.55 + 0.45 * endoCut);
-      if (vx <= 0.8) { motorSpeed = brake * reverseMax; rearTorque = 28 * brake * traction; }
-    }
-
-    const jeepFourWheelDrive = vehicleIdRef.current === "jeep" && s.status === "RUN" && drive > 0.02;
-    const jeepFrontDriveTorque = jeepFourWheelDrive
-      ? vPhys.maxMotorTorque * clamp01(drive) * (frontGrounded ? 0.42 : 0.12) * pitchCut
-      : 0;
-    const jeepRearDriveTorque = jeepFourWheelDrive ? rearTorque * 0.84 : rearTorque;
-
-    car.spring1.setMotorSpeed(motorSpeed);
-    car.spring1.setMaxMotorTorque(jeepRearDriveTorque + brakeTorque);
-    car.spring2.setMotorSpeed(jeepFourWheelDrive ? motorSpeed * 0.98 : 0);
-    car.spring2.setMaxMotorTorque(jeepFrontDriveTorque + brakeTorque * 0.8);
-
-    if (s.status === "RUN" && groundedAny) {
-      const av = car.chassis.getAngularVelocity();
-      const vx = car.chassis.getLinearVelocity().x;
-      const bothDown = rearGrounded && frontGrounded;
-      const pedalEase = clamp01(1 - Math.abs(throttle));
-      const speedEase = clamp01((7.5 - Math.abs(vx)) / 7.5);
-      const assist = pedalEase * speedEase * (bothDown ? 1 : 0.35);
-
-      let stab = (-2.8 * pitch) - (0.8 * av);
-      stab *= assist;
-      stab = Math.max(-10, Math.min(10, stab));
-      car.chassis.applyTorque(stab);
-
-      if (vehicleIdRef.current === "jeep") {
-        const jeepAssist = clamp01((10 - Math.abs(vx)) / 10) * (bothDown ? 1 : 0.55);
-        const jeepStab = clamp((-4.2 * pitch) - (1.15 * av), -16, 16) * jeepAssist;
-        car.chassis.applyTorque(jeepStab);
-      }
-
-      const maxAV = vehicleIdRef.current === "jeep" ? 5.8 : 6.5;
-      if (Math.abs(av) > maxAV) car.chassis.setAngularVelocity(Math.sign(av) * maxAV);
-    }
-
-    if ((s.status === "RUN" || s.status === "OUT_OF_FUEL") && !groundedAny) {
-      car.chassis.applyTorque(30 * throttle);
-      s.boost01 = Math.min(1, s.boost01 + 0.05 * DT);
-    }
-
-    world.step(DT, VEL_ITERS, POS_ITERS);
-    (world as any).clearForces?.();
-
-    const x = car.chassis.getPosition().x;
-    s.distanceM = Math.max(s.distanceM, x);
-    s.bestM = bestRef.current;
-
-    const w = Math.abs(car.wheel1.getAngularVelocity());
-    s.rpm01 = Math.max(0, Math.min(1, w / forwardMax));
-
-    const v = car.chassis.getLinearVelocity();
-    s.speedKmh = Math.hypot(v.x, v.y) * 3.6;
-
-    if (s.toastT > 0) { s.toastT = Math.max(0, s.toastT - DT); if (s.toastT === 0) s.toast = ""; }
-
-    if ((s.status === "RUN" || s.status === "OUT_OF_FUEL") && !groundedAny) {
-      const a = airRef.current;
-      if (!a.active) { a.active = true; a.t = 0; a.acc = 0; a.flipCount = 0; a.lastAngle = car.chassis.getAngle(); }
-      a.t += DT; s.airtimeS = a.t;
-
-      const ang = car.chassis.getAngle();
-      let d = ang - a.lastAngle;
-      while (d > Math.PI) d -= Math.PI * 2;
-      while (d < -Math.PI) d += Math.PI * 2;
-      a.acc += d; a.lastAngle = ang;
-
-      const flipsNow = Math.floor(Math.abs(a.acc) / (Math.PI * 2));
-      if (flipsNow > a.flipCount) {
-        const gained = flipsNow - a.flipCount;
-        a.flipCount = flipsNow; s.flips += gained;
-        const coinBonus = 5 * gained; const fuelBonus = 3 * gained;
-        s.coins += coinBonus; s.fuel = Math.min(100, s.fuel + fuelBonus);
-        s.toast = `FLIP +${coinBonus} - FUEL +${fuelBonus}`; s.toastT = 1.35;
-        s.boost01 = Math.min(1, s.boost01 + 0.18 * gained);
-      }
-    } else { airRef.current.active = false; s.airtimeS = 0; }
-
-    const headLocal = getHeadLocal(vehicleIdRef.current);
-    const points = [car.chassis.getPosition(), car.wheel1.getPosition(), car.wheel2.getPosition(), car.chassis.getWorldPoint(headLocal)];
-
-    for (const p of pickupsRef.current) {
-      if (p.taken) continue;
-      const r = p.kind === "fuel" ? 1.85 : 1.35;
-      const r2 = r * r;
-      let hit = false;
-      for (const pos of points) {
-        const dx = p.x - pos.x, dy = p.y - pos.y;
-        if (dx * dx + dy * dy < r2) { hit = true; break; }
-      }
-      if (!hit) continue;
-      p.taken = true;
-
-      if (p.kind === "coin") {
-        audioManager.playCoin();
-        s.coins += p.value; s.toast = `+${p.value} COIN`; s.toastT = 0.9;
-        s.boost01 = Math.min(1, s.boost01 + 0.015 * p.value);
-      } else if (p.kind === "fuel") {
-        const before = s.fuel; s.fuel = Math.min(100, s.fuel + p.value);
-        s.toast = `FUEL +${p.value}`; s.toastT = 1.1;
-        s.boost01 = Math.min(1, s.boost01 + 0.10);
-        if (s.status === "OUT_OF_FUEL" && before <= 0 && s.fuel > 0.5) {
-          s.status = "RUN"; crashFreezeRef.current = { t: 0, frozen: false };
-          car.chassis.setAwake(true); car.wheel1.setAwake(true); car.wheel2.setAwake(true);
-          car.chassis.setLinearDamping(vPhys.chassisLinearDamping); car.chassis.setAngularDamping(vPhys.chassisAngularDamping);
-          car.wheel1.setAngularDamping(vPhys.wheelAngularDamping); car.wheel2.setAngularDamping(vPhys.wheelAngularDamping);
-        }
-      }
-    }
-
-    if (s.status === "RUN") {
-      const tr = trackRef.current;
-      const headWorld = car.chassis.getWorldPoint(headLocal);
-      const gyHead = sampleTrackY(tr, headWorld.x);
-      const pitchNow = car.chassis.getAngle();
-      const pitchNorm = wrapAngle(pitchNow);
-      const upside = Math.abs(pitchNorm) > 2.2;
-      const posNow = car.chassis.getPosition();
-      const gyBody = sampleTrackY(tr, posNow.x);
-      const nearGround = posNow.y < gyBody + 0.85;
-      // Sports car is very low: when it flips upside-down, the car body can touch/hover near
-      // the terrain while neither wheel is grounded. The shared crash rule uses `groundedAny`,
-      // so only sports car needs this extra body-near-ground upside-down check.
-      const sportsCarUpsideNearGround = vehicleIdRef.current === "sportsCar" && upside && nearGround;
-
-      let jeepUpsideNearGround = false;
-      if (vehicleIdRef.current === "jeep" && upside) {
-        const roofWorld = car.chassis.getWorldPoint(Vec2(0.0, 0.62));
-        const roofGroundY = sampleTrackY(tr, roofWorld.x);
-        const rearWheel = car.wheel1.getPosition();
-        const frontWheel = car.wheel2.getPosition();
-        const rearWheelClearance = rearWheel.y - sampleTrackY(tr, rearWheel.x) - vPhys.wheelRadius;
-        const frontWheelClearance = frontWheel.y - sampleTrackY(tr, frontWheel.x) - vPhys.wheelRadius;
-        const roofTouchingTerrain = roofWorld.y < roofGroundY + 0.18;
-        const headTouchingTerrain = headWorld.y < gyHead + 0.32;
-        const wheelTouchingTerrain = groundedAny || rearWheelClearance < 0.12 || frontWheelClearance < 0.12;
-        const lowEnoughToBeRestingUpsideDown = posNow.y < gyBody + 1.34;
-        const invertedContact = roofTouchingTerrain || headTouchingTerrain || (lowEnoughToBeRestingUpsideDown && wheelTouchingTerrain);
-        upsideCrashRef.current = invertedContact ? upsideCrashRef.current + DT : 0;
-        jeepUpsideNearGround = upsideCrashRef.current > 0.08;
-      } else if (vehicleIdRef.current === "jeep") {
-        upsideCrashRef.current = 0;
-      }
-
-      if (headWorld.y < gyHead + 0.08 || (upside && nearGround && groundedAny) || sportsCarUpsideNearGround || jeepUpsideNearGround) {
-        s.status = "CRASH"; throttleTargetRef.current = 0; throttleRef.current = 0;
-        crashFreezeRef.current = { t: 0, frozen: false }; upsideCrashRef.current = 0; airRef.current = { active: false, t: 0, acc: 0, lastAngle: 0, flipCount: 0 }; s.airtimeS = 0;
-      }
-    }
-
-    if (s.status === "CRASH" || (s.status === "OUT_OF_FUEL" && s.fuel <= 0.01)) {
-      const cf = crashFreezeRef.current;
-      if (!cf.frozen) {
-        const lv = car.chassis.getLinearVelocity();
-        const sp = Math.hypot(lv.x, lv.y);
-        const settleT = s.status === "CRASH" ? 0.65 : 1.35;
-        const canFreeze = s.status === "CRASH" || sp < 0.35;
-        cf.t = canFreeze ? (cf.t + DT) : 0;
-
-        car.chassis.setLinearDamping(2.0); car.chassis.setAngularDamping(3.2);
-        car.wheel1.setAngularDamping(2.0); car.wheel2.setAngularDamping(2.0);
-
-        if (cf.t > settleT) {
-          car.spring1.setMotorSpeed(0); car.spring1.setMaxMotorTorque(0);
-          car.spring2.setMotorSpeed(0); car.spring2.setMaxMotorTorque(0);
-          car.chassis.setLinearVelocity(Vec2(0, 0)); car.chassis.setAngularVelocity(0);
-          car.wheel1.setAngularVelocity(0); car.wheel2.setAngularVelocity(0);
-          car.chassis.setAwake(false); car.wheel1.setAwake(false); car.wheel2.setAwake(false);
-          cf.frozen = true;
-        }
-      }
+    for (const e of events) {
+      if (e.type === "pickup" && e.kind === "coin") audioManager.playCoin();
+      else if (e.type === "outOfFuel") throttleTargetRef.current = Math.min(0, throttleTargetRef.current);
+      else if (e.type === "crash" || e.type === "destroyed") throttleTargetRef.current = 0;
     }
   };
 
@@ -859,7 +436,8 @@ export const HillClimbCanvas = forwardRef<
     camRef.current.y += (targetY - camRef.current.y) * smooth;
   };
 
-  const render = (ctx: CanvasRenderingContext2D, w: number, h: number, car: CarRig, nowS: number) => {
+  const render = (ctx: CanvasRenderingContext2D, w: number, h: number, sim: GameSimulation, nowS: number) => {
+    const car = sim.car;
     const dpr = devicePixelRatio || 1;
     ctx.setTransform(1, 0, 0, 1, 0, 0);
     ctx.clearRect(0, 0, w, h);
@@ -875,26 +453,33 @@ export const HillClimbCanvas = forwardRef<
       y: viewCY - (v.y - camY) * SCALE * dpr,
     });
 
-    const mapConfig = MAPS[mapIdRef.current];
+    // Every layer below draws with the time-of-day palette.
+    const sky = skyAt(MAPS[sim.mapId], camX);
+    const mapConfig: MapConfig = { ...MAPS[sim.mapId], colors: sky.colors };
 
-    drawSkyPro(ctx, w, h, camX, dpr, seedRef.current, mapConfig);
-    drawMountains(ctx, w, h, camX, dpr, 0.08, mapConfig.colors.mountainFar, 0.60);
-    drawMountains(ctx, w, h, camX, dpr, 0.12, mapConfig.colors.mountainNear, 0.70);
+    drawSkyPro(ctx, w, h, camX, dpr, seedRef.current, mapConfig, sky);
+    drawMountains(ctx, w, h, camX, dpr, 0.08, fogTint(mapConfig.colors.mountainFar, mapConfig, 0.08), 0.60);
+    drawMountains(ctx, w, h, camX, dpr, 0.12, fogTint(mapConfig.colors.mountainNear, mapConfig, 0.12), 0.70);
 
-    const track = trackRef.current;
-    drawHills(ctx, w, h, track, camX, camY, dpr, 0.18, mapConfig.colors.hillFar, 0.92);
-    drawHills(ctx, w, h, track, camX, camY, dpr, 0.28, mapConfig.colors.hillMid, 0.84);
-    drawHills(ctx, w, h, track, camX, camY, dpr, 0.40, mapConfig.colors.hillNear, 0.75);
+    const track = sim.track;
+    drawHills(ctx, w, h, track, camX, camY, dpr, 0.18, fogTint(mapConfig.colors.hillFar, mapConfig, 0.18), 0.92);
+    drawHills(ctx, w, h, track, camX, camY, dpr, 0.28, fogTint(mapConfig.colors.hillMid, mapConfig, 0.28), 0.84);
+    drawHills(ctx, w, h, track, camX, camY, dpr, 0.40, fogTint(mapConfig.colors.hillNear, mapConfig, 0.40), 0.75);
 
-    if (mapIdRef.current !== "moon") {
-      drawForest(ctx, w, h, camX, dpr, 0.52, mapConfig.colors.forestColor, 0.72);
+    if (sim.mapId !== "moon") {
+      drawForest(ctx, w, h, camX, dpr, 0.52, fogTint(mapConfig.colors.forestColor, mapConfig, 0.52), 0.72);
     }
 
     drawGround(ctx, w, h, track, camX, camY, dpr, viewCX, viewCY, mapConfig);
     drawDecorations(ctx, w, h, track, camX, camY, dpr, viewCX, viewCY, mapConfig, seedRef.current);
-    drawWeather(ctx, w, h, nowS, mapConfig);
+    drawBridges(ctx, toScreen, sim.bridges, dpr);
+    drawObstacles(ctx, toScreen, sim.obstacles, dpr, mapConfig);
+    drawWeather(ctx, w, h, nowS, mapConfig, sim.state.weather);
 
-    for (const p of pickupsRef.current) {
+    if (sim.stage) drawFinishLine(ctx, toScreen, track, sim.stage.finishX, dpr);
+    if (sim.depot) drawFinishLine(ctx, toScreen, track, (sim.depot.x0 + sim.depot.x1) / 2, dpr);
+
+    for (const p of sim.pickups) {
       if (p.taken) continue;
       const bob = Math.sin(nowS * 2.2 + p.x * 0.85) * 0.10;
       const sp = toScreen(Vec2(p.x, p.y + bob));
@@ -902,12 +487,31 @@ export const HillClimbCanvas = forwardRef<
       if (p.kind === "fuel") drawFuel(ctx, sp.x, sp.y, 16 * dpr);
     }
 
+    const ghost = ghostRef.current, ghostStart = runStartTickRef.current;
+    const ghostPose = ghost ? sampleGhost(ghost, ghostStart === null ? 0 : sim.tick - ghostStart) : null;
+    if (ghostPose) {
+      const ghostGroundY = toScreen(Vec2(0, sampleTrackY(track, ghostPose.x))).y;
+      ctx.save(); ctx.globalAlpha = 0.38;
+      drawVehicle(ctx, toScreen, ghostRig(ghostPose, sim.physics, sim.rig), dpr, headIdRef.current, headImgRef.current, headImg2Ref.current, artImgsRef.current[sim.vehicleId], miniModeRef.current, viewportRef.current.isPhone, sim.vehicleId, ghostGroundY, true);
+      ctx.restore();
+    }
+
     const groundY = sampleTrackY(track, car.chassis.getPosition().x);
     const screenGroundY = toScreen(Vec2(0, groundY)).y;
-    drawVehicle(ctx, toScreen, car, dpr, headIdRef.current, headImgRef.current, headImg2Ref.current, jeepBodyImgRef.current, jeepWheelImgRef.current, sportsCarBodyImgRef.current, sportsCarWheelImgRef.current, miniModeRef.current, viewportRef.current.isPhone, vehicleIdRef.current, screenGroundY);
+    if (sim.cargo?.trailer) drawTrailer(ctx, toScreen, sim.cargo.trailer, dpr);
+    drawVehicle(ctx, toScreen, car, dpr, replayRef.current?.headId ?? headIdRef.current, headImgRef.current, headImg2Ref.current, artImgsRef.current[sim.vehicleId], miniModeRef.current, viewportRef.current.isPhone, sim.vehicleId, screenGroundY, sim.driver.seated);
+    drawDamage(ctx, toScreen, sim, dpr, nowS);
+    if (!sim.driver.seated) drawRagdoll(ctx, toScreen, sim.driver, dpr, replayRef.current?.headId ?? headIdRef.current, headImgRef.current, headImg2Ref.current, VEHICLES[sim.vehicleId].visual.bodyColor);
+    if (sim.cargo) drawCargoCrates(ctx, toScreen, sim.cargo, dpr, mapConfig);
 
     // Foreground Parallax (Fast moving elements)
     drawForeground(ctx, w, h, track, camX, camY, dpr, viewCX, viewCY, mapConfig, seedRef.current);
+    drawFogHaze(ctx, w, h, mapConfig);
+    if (sky.light < 0.95) {
+      drawNightShade(ctx, w, h, sky.light);
+      drawHeadlights(ctx, toScreen, car, sim.vehicleId, dpr, Math.min(1, Math.max(0, (0.65 - sky.light) / 0.3)));
+    }
+    if (sim.state.weather) drawDustVeil(ctx, w, h, toScreen(car.chassis.getPosition()), dpr, mapConfig, sim.state.weather.visibility01);
 
     const g = ctx.createLinearGradient(0, 0, 0, h);
     g.addColorStop(0, "rgba(0,0,0,0)");
@@ -921,15 +525,76 @@ export const HillClimbCanvas = forwardRef<
 
 // -------------------- Render helpers --------------------
 
-function drawWeather(ctx: CanvasRenderingContext2D, w: number, h: number, timeS: number, map: MapConfig) {
+// Fog: parallax layers blend toward the map's fog colour with depth (lower parallax = farther away).
+// Tinted colours are memoised, so the per-frame cost is a map lookup per layer plus one haze fill.
+const FOG_DEPTH_SCALE = 14;
+const fogTintCache = new Map<string, string>();
+
+function fogAmount(map: MapConfig, parallax: number) {
+  if (map.fogDensity <= 0) return 0;
+  return 1 - Math.exp(-map.fogDensity * FOG_DEPTH_SCALE * (1 - parallax));
+}
+
+function fogTint(color: string, map: MapConfig, parallax: number) {
+  const t = fogAmount(map, parallax);
+  if (t <= 0) return color;
+  const key = `${color}|${map.fogColor}|${t.toFixed(3)}`;
+  let tinted = fogTintCache.get(key);
+  if (!tinted) {
+    const a = parseHex(color), b = parseHex(map.fogColor);
+    tinted = `rgb(${Math.round(a[0] + (b[0] - a[0]) * t)},${Math.round(a[1] + (b[1] - a[1]) * t)},${Math.round(a[2] + (b[2] - a[2]) * t)})`;
+    if (fogTintCache.size > 4000) fogTintCache.clear();  // time-of-day palettes keep adding colours
+    fogTintCache.set(key, tinted);
+  }
+  return tinted;
+}
+
+function parseHex(hex: string): [number, number, number] {
+  const n = parseInt(hex.slice(1), 16) || 0;
+  return [(n >> 16) & 255, (n >> 8) & 255, n & 255];
+}
+
+function drawFogHaze(ctx: CanvasRenderingContext2D, w: number, h: number, map: MapConfig) {
+  if (map.fogDensity <= 0) return;
+  const [r, g, b] = parseHex(map.fogColor);
+  const a = Math.min(0.22, map.fogDensity * 2.5);
+  const haze = ctx.createLinearGradient(0, h * 0.30, 0, h);
+  haze.addColorStop(0, `rgba(${r},${g},${b},0)`);
+  haze.addColorStop(0.45, `rgba(${r},${g},${b},${a})`);
+  haze.addColorStop(1, `rgba(${r},${g},${b},${a * 0.45})`);
+  ctx.fillStyle = haze;
+  ctx.fillRect(0, 0, w, h);
+}
+
+// Two poles and a checkered banner across the track at the stage's finish x.
+function drawFinishLine(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, track: Track, finishX: number, dpr: number) {
+  const base = toScreen(Vec2(finishX, sampleTrackY(track, finishX)));
+  const poleH = 120 * dpr, cell = 9 * dpr, cols = 6, rows = 2;
+  ctx.save();
+  ctx.fillStyle = "#3f3f46";
+  ctx.fillRect(base.x - 3 * dpr, base.y - poleH, 6 * dpr, poleH);
+  ctx.fillRect(base.x + cols * cell - 3 * dpr, base.y - poleH, 6 * dpr, poleH);
+  for (let r = 0; r < rows; r++) {
+    for (let c = 0; c < cols; c++) {
+      ctx.fillStyle = (r + c) % 2 === 0 ? "#111827" : "#f9fafb";
+      ctx.fillRect(base.x + c * cell, base.y - poleH + r * cell, cell, cell);
+    }
+  }
+  ctx.restore();
+}
+
+// Particle density follows the run's weather, and blowing dust streams with the current gust.
+function drawWeather(ctx: CanvasRenderingContext2D, w: number, h: number, timeS: number, map: MapConfig, weather: WeatherReading | null) {
   if (!map.snowParticles && !map.dustParticles) return;
   ctx.save();
-  const count = map.snowParticles ? 100 : 50;
+  const density = weather ? 0.4 + 0.9 * weather.intensity01 : 1;
+  const count = Math.round((map.snowParticles ? 100 : 50) * density);
+  const drift = (weather?.wind ?? 0) * 420;
   ctx.fillStyle = map.snowParticles ? "rgba(255,255,255,0.8)" : "rgba(212,171,85,0.4)";
   for (let i = 0; i < count; i++) {
     const seed = i * 1337.31;
     const speedY = map.snowParticles ? 100 + (seed % 50) : -20 + (seed % 40);
-    const speedX = map.snowParticles ? -50 + (seed % 100) : 200 + (seed % 100);
+    const speedX = (map.snowParticles ? -50 + (seed % 100) : 200 + (seed % 100)) + drift;
     const px = (seed + timeS * speedX) % w;
     const py = (seed * 2 + timeS * speedY) % h;
     const size = (seed % 3) + 1;
@@ -940,6 +605,18 @@ function drawWeather(ctx: CanvasRenderingContext2D, w: number, h: number, timeS:
   ctx.restore();
 }
 
+// Thick dust closes in around the car: clear near it, the surface colour towards the edges.
+function drawDustVeil(ctx: CanvasRenderingContext2D, w: number, h: number, car: { x: number; y: number }, dpr: number, map: MapConfig, visibility01: number) {
+  if (visibility01 >= 0.99) return;
+  const [r, g, b] = parseHex(map.colors.grassColor);
+  const a = Math.min(0.9, 1 - visibility01);
+  const veil = ctx.createRadialGradient(car.x, car.y, 110 * dpr, car.x, car.y, Math.max(w, h) * (0.25 + 0.45 * visibility01));
+  veil.addColorStop(0, `rgba(${r},${g},${b},0)`);
+  veil.addColorStop(1, `rgba(${r},${g},${b},${a})`);
+  ctx.fillStyle = veil;
+  ctx.fillRect(0, 0, w, h);
+}
+
 function drawForeground(ctx: CanvasRenderingContext2D, w: number, h: number, track: Track, camX: number, camY: number, dpr: number, viewCX: number, viewCY: number, map: MapConfig, seed: number) {
   const parallax = 1.45;
   const startX = camX - (viewCX / (SCALE * dpr * parallax));
@@ -988,6 +665,7 @@ function drawDecorations(ctx: CanvasRenderingContext2D, w: number, h: number, tr
     if (rnd() > 0.12) continue; // 12% chance per meter
 
     const xPos = wx + rnd();
+    if (track.features.some(f => xPos > f.x0 - 3 && xPos < f.x1 + 3)) continue; // keep set pieces clear
     const sx = viewCX + (xPos - camX) * SCALE * dpr;
     const sy = screenYOfGround(xPos);
 
@@ -1096,6 +774,55 @@ function drawDecorations(ctx: CanvasRenderingContext2D, w: number, h: number, tr
       }
     }
   }
+
+  // Warning sign ahead of every gap.
+  for (const f of track.features) {
+    if (f.kind !== "gap" || f.x0 - 9 < startX || f.x0 - 9 > endX) continue;
+    const sx = viewCX + (f.x0 - 9 - camX) * SCALE * dpr;
+    const sy = screenYOfGround(f.x0 - 9);
+    ctx.fillStyle = "#52525b"; ctx.fillRect(sx - 2*dpr, sy - 34*dpr, 4*dpr, 34*dpr);
+    ctx.fillStyle = "#facc15"; ctx.strokeStyle = "#111827"; ctx.lineWidth = 2*dpr;
+    ctx.beginPath(); ctx.moveTo(sx, sy - 58*dpr); ctx.lineTo(sx + 15*dpr, sy - 32*dpr); ctx.lineTo(sx - 15*dpr, sy - 32*dpr); ctx.closePath(); ctx.fill(); ctx.stroke();
+    ctx.fillStyle = "#111827"; ctx.fillRect(sx - 1.5*dpr, sy - 50*dpr, 3*dpr, 10*dpr); ctx.fillRect(sx - 1.5*dpr, sy - 38*dpr, 3*dpr, 3*dpr);
+  }
+  ctx.restore();
+}
+
+// Plank decks hang from rope rails strung between a post on each rim.
+function drawBridges(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, bridges: Bridge[], dpr: number) {
+  const RAIL_H = 0.9;
+  ctx.save(); ctx.lineJoin = "round"; ctx.lineCap = "round";
+  for (const b of bridges) {
+    const joints = [b.planks[0].body.getWorldPoint(Vec2(-b.planks[0].halfLen, 0))];
+    for (const p of b.planks) joints.push(p.body.getWorldPoint(Vec2(p.halfLen, 0)));
+    const first = joints[0], last = joints[joints.length - 1];
+    const rail = joints.map((j, i) => toScreen(Vec2(j.x, j.y + (i === 0 || i === joints.length - 1 ? RAIL_H + 0.3 : RAIL_H))));
+
+    ctx.strokeStyle = "#78350f"; ctx.lineWidth = 1.5 * dpr;
+    for (let i = 1; i < joints.length - 1; i += 2) {
+      const j = toScreen(joints[i]);
+      ctx.beginPath(); ctx.moveTo(j.x, j.y); ctx.lineTo(rail[i].x, rail[i].y); ctx.stroke();
+    }
+    ctx.lineWidth = 2.5 * dpr; ctx.beginPath();
+    rail.forEach((r, i) => (i === 0 ? ctx.moveTo(r.x, r.y) : ctx.lineTo(r.x, r.y)));
+    ctx.stroke();
+
+    for (const p of b.planks) {
+      const c = toScreen(p.body.getPosition());
+      const len = 2 * p.halfLen * SCALE * dpr, thick = 0.18 * SCALE * dpr;
+      ctx.save(); ctx.translate(c.x, c.y); ctx.rotate(-p.body.getAngle());
+      // The body sits on the deck line; the plank hangs below it.
+      ctx.fillStyle = "#a16207"; ctx.fillRect(-len / 2, 0, len, thick);
+      ctx.strokeStyle = "#451a03"; ctx.lineWidth = 1.5 * dpr; ctx.strokeRect(-len / 2, 0, len, thick);
+      ctx.restore();
+    }
+
+    ctx.fillStyle = "#451a03";
+    for (const end of [first, last]) {
+      const base = toScreen(end), top = toScreen(Vec2(end.x, end.y + RAIL_H + 0.4));
+      ctx.fillRect(base.x - 3 * dpr, top.y, 6 * dpr, base.y - top.y + 6 * dpr);
+    }
+  }
   ctx.restore();
 }
 
@@ -1116,22 +843,23 @@ function getSkyNoisePattern(ctx: CanvasRenderingContext2D, seed: number) {
   return skyNoisePattern;
 }
 
-function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: number, dpr: number, seed: number, map: MapConfig) {
-  const sky = ctx.createLinearGradient(0, 0, 0, h);
-  sky.addColorStop(0, map.colors.skyTop);
-  sky.addColorStop(0.44, map.colors.skyMid);
-  sky.addColorStop(0.74, map.colors.skyHorizon);
-  sky.addColorStop(1, map.colors.skyBottom);
-  ctx.fillStyle = sky;
+function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: number, dpr: number, seed: number, map: MapConfig, sky: Sky) {
+  const skyFill = ctx.createLinearGradient(0, 0, 0, h);
+  skyFill.addColorStop(0, map.colors.skyTop);
+  skyFill.addColorStop(0.44, map.colors.skyMid);
+  skyFill.addColorStop(0.74, map.colors.skyHorizon);
+  skyFill.addColorStop(1, map.colors.skyBottom);
+  ctx.fillStyle = skyFill;
   ctx.fillRect(0, 0, w, h);
 
   const pat = getSkyNoisePattern(ctx, seed);
   if (pat) { ctx.save(); ctx.globalAlpha = 0.08; ctx.fillStyle = pat; ctx.fillRect(0, 0, w, h); ctx.restore(); }
 
-  const sx = w * 0.82, sy = h * 0.20, sr = 70 * dpr;
+  // The sun follows the time of day; Earth hangs still over the moon.
+  const sun = map.id === "moon" ? { x01: 0.82, y01: 0.20 } : sky.sun;
+  const sx = w * (sun?.x01 ?? 0.82), sy = h * (sun?.y01 ?? 0.20), sr = 70 * dpr;
 
-  // Moon: draw stars instead of clouds
-  if (map.id === "moon") {
+  if (sky.stars > 0.01) {
     ctx.save();
     const starRnd = mulberry32((seed ^ 0xbeef) >>> 0);
     for (let i = 0; i < 120; i++) {
@@ -1139,14 +867,16 @@ function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: n
       const starY = starRnd() * h * 0.7;
       const starR = (0.5 + starRnd() * 2.0) * dpr;
       const twinkle = 0.4 + 0.6 * Math.abs(Math.sin(Date.now() * 0.002 + i * 1.7));
-      ctx.globalAlpha = twinkle * (0.5 + starRnd() * 0.5);
+      ctx.globalAlpha = twinkle * (0.5 + starRnd() * 0.5) * sky.stars;
       ctx.fillStyle = "#fff";
       ctx.beginPath(); ctx.arc(starX, starY, starR, 0, Math.PI * 2); ctx.fill();
     }
     ctx.restore();
   }
 
-  if (map.id === "hills") {
+  if (sky.moon && map.id !== "moon") drawNightMoon(ctx, w * sky.moon.x01, h * sky.moon.y01, dpr, 1 - sky.light);
+
+  if (map.id === "hills" && sky.light > 0.7) {
     // Realistic Birds in sky
     ctx.save();
     const rndB = mulberry32(seed * 111);
@@ -1171,9 +901,9 @@ function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: n
     ctx.restore();
   }
 
-  if (map.id === "arctic") {
+  if (sky.aurora > 0.01) {
     // Smooth flowing aurora curtains
-    ctx.save(); ctx.globalAlpha = 0.35;
+    ctx.save(); ctx.globalAlpha = sky.aurora;
     const auroraColors = ["#4ade80", "#2dd4bf", "#a78bfa"];
     const now = Date.now() * 0.0005;
     for (let i = 0; i < 3; i++) {
@@ -1202,7 +932,9 @@ function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: n
       ctx.fill();
     }
     ctx.restore();
-  } else if (map.id === "desert") {
+  }
+
+  if (map.id === "desert") {
     // Pyramids in the far background (fix negative modulo)
     ctx.save(); ctx.globalAlpha = 0.5;
     const rawPx = (camX * -0.05 * SCALE * dpr + w);
@@ -1221,15 +953,17 @@ function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: n
     ctx.restore();
 
     // Intense heat sun
-    ctx.save();
-    const sunGrad = ctx.createRadialGradient(sx, sy, 0, sx, sy, 120*dpr);
-    sunGrad.addColorStop(0, "rgba(255,255,255,1)");
-    sunGrad.addColorStop(0.15, "rgba(253,224,71,0.9)");
-    sunGrad.addColorStop(0.5, "rgba(253,186,71,0.3)");
-    sunGrad.addColorStop(1, "rgba(253,224,71,0)");
-    ctx.fillStyle = sunGrad;
-    ctx.beginPath(); ctx.arc(sx, sy, 120*dpr, 0, Math.PI*2); ctx.fill();
-    ctx.restore();
+    if (sun) {
+      ctx.save();
+      const sunGrad = ctx.createRadialGradient(sx, sy, 0, sx, sy, 120*dpr);
+      sunGrad.addColorStop(0, "rgba(255,255,255,1)");
+      sunGrad.addColorStop(0.15, "rgba(253,224,71,0.9)");
+      sunGrad.addColorStop(0.5, "rgba(253,186,71,0.3)");
+      sunGrad.addColorStop(1, "rgba(253,224,71,0)");
+      ctx.fillStyle = sunGrad;
+      ctx.beginPath(); ctx.arc(sx, sy, 120*dpr, 0, Math.PI*2); ctx.fill();
+      ctx.restore();
+    }
   }
 
   if (map.id === "moon") {
@@ -1315,7 +1049,7 @@ function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: n
       ctx.stroke();
       ctx.restore();
     }
-  } else if (map.id !== "desert") {
+  } else if (map.id !== "desert" && sun) {
     // Regular Sun
     ctx.save();
     ctx.globalAlpha = 0.90; ctx.fillStyle = map.colors.sunColor;
@@ -1339,20 +1073,107 @@ function drawSkyPro(ctx: CanvasRenderingContext2D, w: number, h: number, camX: n
     for (let i = 0; i < 7; i++) {
       const x01 = rnd(), y01 = 0.08 + rnd() * 0.22, s01 = 0.55 + rnd() * 0.75, a = 0.22 + rnd() * 0.20;
       const x = (((x01 - drift + 1) % 1) * (w + margin)) - margin * 0.5, y = h * y01;
-      drawCloud(ctx, x, y, 96 * dpr * s01, 36 * dpr * s01, a);
+      drawCloud(ctx, x, y, 96 * dpr * s01, 36 * dpr * s01, a * (0.35 + 0.65 * sky.light));
     }
   }
 
   // Skip white horizon haze on Moon and Arctic (looks bad on dark skies)
   if (map.id !== "moon" && map.id !== "arctic") {
     const hz = ctx.createLinearGradient(0, h * 0.42, 0, h);
-    hz.addColorStop(0, "rgba(255,255,255,0)"); hz.addColorStop(1, "rgba(255,255,255,0.18)");
+    hz.addColorStop(0, "rgba(255,255,255,0)"); hz.addColorStop(1, `rgba(255,255,255,${(0.18 * sky.light).toFixed(3)})`);
     ctx.fillStyle = hz; ctx.fillRect(0, 0, w, h);
   }
 }
 
 function ridgeNoise(x: number) { return Math.sin(x * 0.90) * 0.55 + Math.sin(x * 0.37 + 1.9) * 0.28 + Math.sin(x * 1.55 - 0.3) * 0.17; }
 
+// A pale crescent moon for the night sky, fading in as the light goes.
+function drawNightMoon(ctx: CanvasRenderingContext2D, x: number, y: number, dpr: number, alpha: number) {
+  const r = 22 * dpr;
+  ctx.save(); ctx.globalAlpha = Math.min(1, alpha * 1.4);
+  const glow = ctx.createRadialGradient(x, y, r * 0.8, x, y, r * 3);
+  glow.addColorStop(0, "rgba(200,215,255,0.35)"); glow.addColorStop(1, "rgba(200,215,255,0)");
+  ctx.fillStyle = glow; ctx.beginPath(); ctx.arc(x, y, r * 3, 0, Math.PI * 2); ctx.fill();
+  ctx.fillStyle = "#eef2ff"; ctx.beginPath(); ctx.arc(x, y, r, 0, Math.PI * 2); ctx.fill();
+  ctx.fillStyle = "rgba(148,163,184,0.45)";
+  ctx.beginPath(); ctx.arc(x - r * 0.3, y - r * 0.2, r * 0.22, 0, Math.PI * 2); ctx.arc(x + r * 0.25, y + r * 0.35, r * 0.15, 0, Math.PI * 2); ctx.fill();
+  ctx.restore();
+}
+
+// Sprites and props carry no time-of-day palette, so the whole scene gets a blue shade at night.
+function drawNightShade(ctx: CanvasRenderingContext2D, w: number, h: number, light: number) {
+  ctx.save();
+  ctx.fillStyle = `rgba(8,14,38,${((1 - light) * 0.35).toFixed(3)})`;
+  ctx.fillRect(0, 0, w, h);
+  ctx.restore();
+}
+
+// A warm beam cone ahead of the car plus the lamp glow, added on top of the night shade.
+function drawHeadlights(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, car: CarRig, vehicleId: VehicleId, dpr: number, strength: number) {
+  if (strength <= 0.01) return;
+  const [lx, ly] = VEHICLES[vehicleId].visual.headlight;
+  const lamp = toScreen(car.chassis.getWorldPoint(Vec2(lx, ly)));
+  const ang = -car.chassis.getAngle() + 0.06;  // screen y points down; aim slightly at the road
+  const len = 9 * SCALE * dpr, spread = 0.22;
+  ctx.save();
+  ctx.globalCompositeOperation = "lighter";
+  const beam = ctx.createRadialGradient(lamp.x, lamp.y, 0, lamp.x, lamp.y, len);
+  beam.addColorStop(0, `rgba(255,240,200,${(0.45 * strength).toFixed(3)})`);
+  beam.addColorStop(1, "rgba(255,240,200,0)");
+  ctx.fillStyle = beam;
+  ctx.beginPath(); ctx.moveTo(lamp.x, lamp.y);
+  ctx.arc(lamp.x, lamp.y, len, ang - spread, ang + spread);
+  ctx.closePath(); ctx.fill();
+  const glow = ctx.createRadialGradient(lamp.x, lamp.y, 0, lamp.x, lamp.y, 12 * dpr);
+  glow.addColorStop(0, `rgba(255,250,230,${(0.9 * strength).toFixed(3)})`);
+  glow.addColorStop(1, "rgba(255,250,230,0)");
+  ctx.fillStyle = glow;
+  ctx.beginPath(); ctx.arc(lamp.x, lamp.y, 12 * dpr, 0, Math.PI * 2); ctx.fill();
+  ctx.restore();
+}
+
+// Wear on the live car: dents over the main body part that multiply as the hull meter fills, and grey
+// smoke from the front past half. Seeded per run, so a dent stays where it first appeared.
+function drawDamage(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, sim: GameSimulation, dpr: number, nowS: number) {
+  const d = sim.damage.hull01;
+  if (d < 0.05) return;
+  const chassis = sim.car.chassis, a = chassis.getAngle(), k = SCALE * dpr;
+  const part = sim.rig.chassis[0];
+  let cx = 0, cy = 0, hw = 0.5, hh = 0.2;
+  if (part.shape === "box") { cx = part.x ?? 0; cy = part.y ?? 0; hw = part.hw; hh = part.hh; }
+  else {
+    const xs = part.points.map(q => q[0]), ys = part.points.map(q => q[1]);
+    cx = (Math.min(...xs) + Math.max(...xs)) / 2; cy = (Math.min(...ys) + Math.max(...ys)) / 2;
+    hw = (Math.max(...xs) - Math.min(...xs)) / 2; hh = (Math.max(...ys) - Math.min(...ys)) / 2;
+  }
+
+  ctx.save();
+  const rnd = mulberry32((sim.seed ^ 0x9e3779b9) >>> 0);
+  const dents = Math.floor(d * 12);
+  for (let i = 0; i < dents; i++) {
+    const u = rnd() * 2 - 1, v = rnd() * 2 - 1, r = (0.04 + rnd() * 0.05) * k, tilt = rnd() * Math.PI;
+    const p = toScreen(chassis.getWorldPoint(Vec2(cx + u * hw * 0.85, cy + v * hh * 0.75)));
+    ctx.fillStyle = "rgba(24,24,27,0.45)";
+    ctx.beginPath(); ctx.ellipse(p.x, p.y, r, r * 0.55, tilt - a, 0, Math.PI * 2); ctx.fill();
+    ctx.strokeStyle = "rgba(255,255,255,0.35)"; ctx.lineWidth = 1 * dpr;
+    ctx.beginPath(); ctx.ellipse(p.x, p.y, r, r * 0.55, tilt - a, Math.PI * 1.1, Math.PI * 1.7); ctx.stroke();
+  }
+
+  const smoke = (d - 0.5) / 0.5;
+  if (smoke > 0) {
+    const [lx, ly] = VEHICLES[sim.vehicleId].visual.headlight;
+    const src = chassis.getWorldPoint(Vec2(lx - 0.25, ly + 0.1));
+    const puffs = 3 + Math.round(smoke * 4);
+    for (let i = 0; i < puffs; i++) {
+      const t = (nowS * 0.8 + i / puffs) % 1;
+      const p = toScreen(Vec2(src.x - t * 0.9, src.y + t * 1.3));
+      ctx.fillStyle = `rgba(82,82,91,${((1 - t) * (0.25 + 0.35 * smoke)).toFixed(3)})`;
+      ctx.beginPath(); ctx.arc(p.x, p.y, (0.08 + t * 0.3) * k, 0, Math.PI * 2); ctx.fill();
+    }
+  }
+  ctx.restore();
+}
+
 function drawCloud(ctx: CanvasRenderingContext2D, x: number, y: number, w: number, h: number, alpha: number) {
   ctx.save(); ctx.globalAlpha = alpha; ctx.fillStyle = "#ffffff";
   ctx.beginPath();
@@ -1475,9 +1296,14 @@ function drawGround(ctx: CanvasRenderingContext2D, w: number, h: number, track:
   const startXWorld = camX - (viewCX / (SCALE * dpr)) - 1;
   const endXWorld = camX + ((w - viewCX) / (SCALE * dpr)) + 1;
 
+  // The grass line stops at the rims of gaps and bridges instead of lining the pit.
+  const pits = track.features.filter(f => f.kind === "gap" || f.kind === "bridge");
+  const inPit = (wx: number) => pits.some(f => wx > f.x0 - 0.2 && wx < f.x1 + 0.2);
+
   ctx.strokeStyle = map.colors.grassColor; ctx.lineWidth = 12 * dpr; ctx.lineCap = "round"; ctx.lineJoin = "round"; ctx.beginPath();
   let first = true;
   for (let wx = Math.floor(startXWorld * 5) / 5; wx <= Math.ceil(endXWorld * 5) / 5; wx += 0.2) {
+    if (inPit(wx)) { first = true; continue; }
     const sx = viewCX + (wx - camX) * SCALE * dpr;
     const wave = Math.sin(wx * 15) * 3 * dpr + Math.sin(wx * 43) * 2 * dpr;
     const y = screenYOfGround(wx) + wave;
@@ -1488,12 +1314,209 @@ function drawGround(ctx: CanvasRenderingContext2D, w: number, h: number, track:
   ctx.strokeStyle = map.colors.grassHighlight; ctx.lineWidth = 4 * dpr; ctx.beginPath();
   first = true;
   for (let wx = Math.floor(startXWorld * 5) / 5; wx <= Math.ceil(endXWorld * 5) / 5; wx += 0.2) {
+    if (inPit(wx)) { first = true; continue; }
     const sx = viewCX + (wx - camX) * SCALE * dpr;
     const wave = Math.sin(wx * 15) * 3 * dpr + Math.sin(wx * 43) * 2 * dpr;
     const y = screenYOfGround(wx) - 4 * dpr + wave;
     if (first) { ctx.moveTo(sx, y); first = false; } else ctx.lineTo(sx, y);
   }
   ctx.stroke();
+
+  for (const f of track.features) {
+    if (f.x1 < startXWorld - 2 || f.x0 > endXWorld + 2) continue;
+    drawFeature(ctx, track, f, camX, camY, dpr, viewCX, viewCY);
+  }
+
+  // Ice patches: a glossy blue sheet laid over the snow line so low-grip stretches read at a glance.
+  for (const z of track.ice) {
+    if (z.x1 < startXWorld || z.x0 > endXWorld) continue;
+    const x0 = Math.max(z.x0, startXWorld), x1 = Math.min(z.x1, endXWorld);
+    const traceIce = (dyPx: number) => {
+      ctx.beginPath();
+      for (let wx = x0; wx <= x1; wx += 0.2) {
+        const sx = viewCX + (wx - camX) * SCALE * dpr;
+        const y = screenYOfGround(wx) + dyPx * dpr;
+        if (wx === x0) ctx.moveTo(sx, y); else ctx.lineTo(sx, y);
+      }
+      ctx.lineTo(viewCX + (x1 - camX) * SCALE * dpr, screenYOfGround(x1) + dyPx * dpr);
+    };
+    ctx.strokeStyle = "rgba(96,165,214,0.95)"; ctx.lineWidth = 14 * dpr; traceIce(1); ctx.stroke();
+    ctx.strokeStyle = "rgba(186,230,253,0.95)"; ctx.lineWidth = 8 * dpr; traceIce(-1); ctx.stroke();
+    ctx.strokeStyle = "rgba(255,255,255,0.9)"; ctx.lineWidth = 2 * dpr; traceIce(-4); ctx.stroke();
+
+    ctx.strokeStyle = "rgba(255,255,255,0.95)"; ctx.lineWidth = 2.5 * dpr;
+    for (let wx = Math.ceil(x0); wx <= x1; wx++) {
+      const grnd = mulberry32(Math.abs(wx * 4241));
+      if (grnd() > 0.45) continue;
+      const gx = wx + grnd() * 0.6;
+      const sx = viewCX + (gx - camX) * SCALE * dpr;
+      const sy = screenYOfGround(gx) - 1 * dpr;
+      ctx.beginPath(); ctx.moveTo(sx, sy); ctx.lineTo(sx + 9 * dpr, sy - 2 * dpr); ctx.stroke();
+    }
+  }
+}
+
+// Loose props, drawn in the body's frame so they tumble with the physics. Colours follow the map.
+function drawObstacles(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, obstacles: Obstacle[], dpr: number, map: MapConfig) {
+  const k = SCALE * dpr;
+  ctx.save(); ctx.lineJoin = "round";
+  for (const o of obstacles) {
+    const c = toScreen(o.body.getPosition());
+    const w = o.hw * k, h = o.hh * k;
+    ctx.save(); ctx.translate(c.x, c.y); ctx.rotate(-o.body.getAngle());
+    ctx.lineWidth = 2 * dpr;
+
+    if (o.kind === "crate") {
+      drawCrate(ctx, w, h, 3 * dpr, map);
+    } else if (o.kind === "barrel") {
+      // Oil drum: red in the desert, blue fuel drum on the ice.
+      ctx.fillStyle = map.id === "desert" ? "#b91c1c" : "#1d4ed8"; ctx.strokeStyle = "#1f2937";
+      roundRect(ctx, -w, -h, 2 * w, 2 * h, 4 * dpr); ctx.fill(); ctx.stroke();
+      ctx.strokeStyle = "rgba(0,0,0,0.45)"; ctx.lineWidth = 2.5 * dpr;
+      for (const by of [-h * 0.45, h * 0.45]) { ctx.beginPath(); ctx.moveTo(-w, by); ctx.lineTo(w, by); ctx.stroke(); }
+      ctx.fillStyle = "rgba(255,255,255,0.22)"; ctx.fillRect(-w * 0.6, -h, w * 0.3, 2 * h);
+    } else if (o.kind === "log") {
+      // Seen end-on: bark ring around pale growth rings.
+      ctx.fillStyle = "#5b3412"; ctx.beginPath(); ctx.arc(0, 0, w, 0, Math.PI * 2); ctx.fill();
+      ctx.fillStyle = "#d6a36b"; ctx.beginPath(); ctx.arc(0, 0, w * 0.78, 0, Math.PI * 2); ctx.fill();
+      ctx.strokeStyle = "#a16207"; ctx.lineWidth = 1.2 * dpr;
+      for (const r of [0.55, 0.33, 0.12]) { ctx.beginPath(); ctx.arc(0, 0, w * r, 0, Math.PI * 2); ctx.stroke(); }
+    } else {
+      // Rock in the map's stone: grey, sandstone, ice or pocked moon rock.
+      const tone = ({ hills: ["#78716c", "#44403c"], desert: ["#c2773a", "#7c3f16"], arctic: ["#bae6fd", "#7dd3fc"], moon: ["#64748b", "#334155"] } as const)[map.id];
+      ctx.fillStyle = tone[0]; ctx.strokeStyle = tone[1];
+      ctx.beginPath();
+      (o.outline ?? []).forEach((v, i) => (i === 0 ? ctx.moveTo(v.x * k, -v.y * k) : ctx.lineTo(v.x * k, -v.y * k)));
+      ctx.closePath(); ctx.fill(); ctx.stroke();
+      ctx.fillStyle = map.id === "arctic" ? "rgba(255,255,255,0.7)" : "rgba(0,0,0,0.18)";
+      ctx.beginPath(); ctx.ellipse(-w * 0.25, -h * 0.3, w * 0.28, h * 0.16, -0.4, 0, Math.PI * 2); ctx.fill();
+      if (map.id === "moon") { ctx.beginPath(); ctx.arc(w * 0.3, h * 0.2, w * 0.14, 0, Math.PI * 2); ctx.fill(); }
+    }
+    ctx.restore();
+  }
+  ctx.restore();
+}
+
+// Wooden crate; metal supply crate on the moon. Drawn around the origin, in the caller's body frame.
+function drawCrate(ctx: CanvasRenderingContext2D, w: number, h: number, inset: number, map: MapConfig) {
+  const moon = map.id === "moon";
+  ctx.fillStyle = moon ? "#94a3b8" : "#b45309"; ctx.strokeStyle = moon ? "#334155" : "#78350f";
+  ctx.fillRect(-w, -h, 2 * w, 2 * h); ctx.strokeRect(-w, -h, 2 * w, 2 * h);
+  ctx.beginPath();
+  if (moon) { ctx.moveTo(-w, 0); ctx.lineTo(w, 0); }
+  else { ctx.moveTo(-w, -h); ctx.lineTo(w, h); ctx.moveTo(w, -h); ctx.lineTo(-w, h); }
+  ctx.stroke();
+  ctx.strokeRect(-w + inset, -h + inset, 2 * w - 2 * inset, 2 * h - 2 * inset);
+}
+
+// Cargo runs: the flatbed trailer goes behind the vehicle, the load in front of it so a bed's crates show.
+function drawTrailer(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, trailer: Trailer, dpr: number) {
+  const k = SCALE * dpr, { deckHw, deckHh, tongue, wheelR } = TRAILER;
+  const wp = toScreen(trailer.wheel.getPosition()), axle = toScreen(trailer.body.getWorldPoint(Vec2(TRAILER.wheelX, -deckHh)));
+  const deck = toScreen(trailer.body.getPosition());
+  ctx.save(); ctx.lineJoin = "round";
+  ctx.strokeStyle = "#3f3f46"; ctx.lineWidth = 4 * dpr;
+  ctx.beginPath(); ctx.moveTo(wp.x, wp.y); ctx.lineTo(axle.x, axle.y); ctx.stroke();
+  drawWheel(ctx, wp, trailer.wheel.getAngle(), wheelR, dpr);
+
+  ctx.translate(deck.x, deck.y); ctx.rotate(-trailer.body.getAngle());
+  ctx.fillStyle = "#52525b"; ctx.fillRect(deckHw * k, (deckHh - 0.03) * k, tongue * k, 0.06 * k);
+  ctx.fillStyle = "#a16207"; ctx.strokeStyle = "#422006"; ctx.lineWidth = 2 * dpr;
+  ctx.fillRect(-deckHw * k, 0, 2 * deckHw * k, 2 * deckHh * k); ctx.strokeRect(-deckHw * k, 0, 2 * deckHw * k, 2 * deckHh * k);
+  ctx.fillStyle = "#3f3f46";
+  for (const x of [-deckHw - 0.04, deckHw]) ctx.fillRect(x * k, -0.2 * k, 0.04 * k, 0.2 * k);
+  ctx.restore();
+}
+
+function drawCargoCrates(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, cargo: Cargo, dpr: number, map: MapConfig) {
+  const w = CRATE_HW * SCALE * dpr;
+  ctx.save(); ctx.lineJoin = "round"; ctx.lineWidth = 2 * dpr;
+  for (const c of cargo.crates) {
+    const p = toScreen(c.body.getPosition());
+    ctx.save(); ctx.translate(p.x, p.y); ctx.rotate(-c.body.getAngle());
+    if (c.lost) ctx.globalAlpha = 0.75;
+    drawCrate(ctx, w, w, 1.5 * dpr, map);
+    ctx.restore();
+  }
+  ctx.restore();
+}
+
+// Set pieces on top of the ground fill: shaded pits, a plank deck on ramps, a rock band on steps, a
+// concrete yard and warehouse at a cargo depot.
+function drawFeature(ctx: CanvasRenderingContext2D, track: Track, f: TrackFeature, camX: number, camY: number, dpr: number, viewCX: number, viewCY: number) {
+  const sxOf = (wx: number) => viewCX + (wx - camX) * SCALE * dpr;
+  const syOf = (wy: number) => viewCY - (wy - camY) * SCALE * dpr;
+  const trace = (x0: number, x1: number, dyPx: number) => {
+    ctx.beginPath();
+    for (let wx = x0; wx <= x1; wx += 0.2) {
+      const y = syOf(sampleTrackY(track, wx)) + dyPx * dpr;
+      if (wx === x0) ctx.moveTo(sxOf(wx), y); else ctx.lineTo(sxOf(wx), y);
+    }
+    ctx.lineTo(sxOf(x1), syOf(sampleTrackY(track, x1)) + dyPx * dpr);
+  };
+
+  ctx.save(); ctx.lineCap = "round"; ctx.lineJoin = "round";
+  if (f.kind === "gap" || f.kind === "bridge") {
+    // Darken the hole from the rims down to the floor.
+    const top = syOf(Math.max(f.y0, f.y1)), floor = syOf(sampleTrackY(track, (f.x0 + f.x1) / 2));
+    const shade = ctx.createLinearGradient(0, top, 0, floor);
+    shade.addColorStop(0, "rgba(0,0,0,0)");
+    shade.addColorStop(1, "rgba(0,0,0,0.55)");
+    ctx.fillStyle = shade;
+    ctx.fillRect(sxOf(f.x0), top, sxOf(f.x1) - sxOf(f.x0), floor - top);
+    if (f.kind === "gap") {
+      // Hazard edging on both rims.
+      for (const [ex, ey, dir] of [[f.x0, f.y0, -1], [f.x1, f.y1, 1]] as const) {
+        for (let i = 0; i < 4; i++) {
+          ctx.fillStyle = i % 2 === 0 ? "#facc15" : "#111827";
+          ctx.fillRect(sxOf(ex) + (dir < 0 ? -(i + 1) : i) * 7 * dpr, syOf(ey) - 3 * dpr, 7 * dpr, 6 * dpr);
+        }
+      }
+    }
+  } else if (f.kind === "ramp") {
+    // Plank deck up the kicker, a board face on the lip and a strut down to the landing.
+    ctx.strokeStyle = "#78350f"; ctx.lineWidth = 10 * dpr; trace(f.x0 + 0.5, f.x1, 2); ctx.stroke();
+    ctx.strokeStyle = "#ca8a04"; ctx.lineWidth = 5 * dpr; trace(f.x0 + 0.5, f.x1, -1); ctx.stroke();
+    ctx.strokeStyle = "#451a03"; ctx.lineWidth = 1.5 * dpr;
+    for (let wx = f.x0 + 1; wx < f.x1; wx += 0.6) {
+      const sx = sxOf(wx), sy = syOf(sampleTrackY(track, wx));
+      ctx.beginPath(); ctx.moveTo(sx, sy - 3 * dpr); ctx.lineTo(sx, sy + 6 * dpr); ctx.stroke();
+    }
+    const lipX = sxOf(f.x1), lipY = syOf(f.y1), footY = syOf(sampleTrackY(track, f.x1 + 0.6));
+    ctx.fillStyle = "#92400e"; ctx.fillRect(lipX - 5 * dpr, lipY - 2 * dpr, 7 * dpr, footY - lipY + 2 * dpr);
+    ctx.strokeStyle = "#78350f"; ctx.lineWidth = 4 * dpr;
+    ctx.beginPath(); ctx.moveTo(lipX - 2 * dpr, lipY + 4 * dpr); ctx.lineTo(sxOf(f.x1 - 1.6), syOf(sampleTrackY(track, f.x1 - 1.6)) + 10 * dpr); ctx.stroke();
+  } else if (f.kind === "depot") {
+    // Concrete apron over the yard; the warehouse stands past the unloading line at its middle.
+    ctx.strokeStyle = "#52525b"; ctx.lineWidth = 12 * dpr; trace(f.x0 - 0.5, f.x1 + 0.5, 2); ctx.stroke();
+    ctx.strokeStyle = "#d4d4d8"; ctx.lineWidth = 4 * dpr; trace(f.x0 - 0.5, f.x1 + 0.5, -3); ctx.stroke();
+    const k = SCALE * dpr, bx = sxOf((f.x0 + f.x1) / 2 + 2.5), by = syOf(f.y1) - 4 * dpr;
+    const bw = 4.5 * k, bh = 2.6 * k;
+    ctx.fillStyle = "#9ca3af"; ctx.strokeStyle = "#374151"; ctx.lineWidth = 2 * dpr;
+    ctx.fillRect(bx, by - bh, bw, bh); ctx.strokeRect(bx, by - bh, bw, bh);
+    ctx.fillStyle = "#475569";
+    ctx.beginPath(); ctx.moveTo(bx - 0.2 * k, by - bh); ctx.lineTo(bx + bw / 2, by - bh - 0.8 * k); ctx.lineTo(bx + bw + 0.2 * k, by - bh); ctx.closePath(); ctx.fill(); ctx.stroke();
+    // Roller door, with a stack of crates already unloaded beside it.
+    ctx.fillStyle = "#6b7280"; ctx.fillRect(bx + 0.5 * k, by - 1.8 * k, 2 * k, 1.8 * k);
+    ctx.strokeStyle = "rgba(0,0,0,0.3)"; ctx.lineWidth = 1.5 * dpr;
+    for (let i = 1; i < 8; i++) { const y = by - 1.8 * k + i * 0.225 * k; ctx.beginPath(); ctx.moveTo(bx + 0.5 * k, y); ctx.lineTo(bx + 2.5 * k, y); ctx.stroke(); }
+    ctx.fillStyle = "#facc15"; ctx.fillRect(bx + 0.5 * k, by - 2.1 * k, 2 * k, 0.22 * k);
+    ctx.fillStyle = "#b45309"; ctx.strokeStyle = "#78350f";
+    for (const [cx, cy] of [[3, 0], [3.5, 0], [3.25, 1]]) {
+      ctx.fillRect(bx + cx * k, by - (cy + 1) * 0.45 * k, 0.45 * k, 0.45 * k); ctx.strokeRect(bx + cx * k, by - (cy + 1) * 0.45 * k, 0.45 * k, 0.45 * k);
+    }
+  } else {
+    // Bare rock over the treads, with a few boulders set into the risers.
+    ctx.strokeStyle = "#57534e"; ctx.lineWidth = 13 * dpr; trace(f.x0 - 0.5, f.x1 + 0.5, 1); ctx.stroke();
+    ctx.strokeStyle = "#a8a29e"; ctx.lineWidth = 4 * dpr; trace(f.x0 - 0.5, f.x1 + 0.5, -4); ctx.stroke();
+    const rnd = mulberry32(Math.floor(f.x0 * 100));
+    ctx.fillStyle = "#78716c";
+    for (let wx = f.x0; wx < f.x1; wx += 0.7) {
+      const sx = sxOf(wx + rnd() * 0.3), sy = syOf(sampleTrackY(track, wx)) + (6 + rnd() * 10) * dpr;
+      ctx.beginPath(); ctx.ellipse(sx, sy, (5 + rnd() * 6) * dpr, (3 + rnd() * 4) * dpr, rnd() * Math.PI, 0, Math.PI * 2); ctx.fill();
+    }
+  }
+  ctx.restore();
 }
 
 function drawCoin(ctx: CanvasRenderingContext2D, x: number, y: number, r: number) {
@@ -1613,7 +1636,7 @@ function getVehicleArtTuning(vehicleId: VehicleId, isPhoneViewport: boolean): Ve
     bodyOffsetYPx: 0,
     headOffsetXPx: 0,
     headOffsetYPx: 0,
-    headSizeMult: 1,
+    headSizeMult: VEHICLES[vehicleId].visual.art?.bodySize ? 0.58 : 1,
     rearWheelOffsetXPx: 0,
     frontWheelOffsetXPx: 0,
     wheelOffsetYPx: 0,
@@ -1666,41 +1689,58 @@ function getSportsCarHeadTargetPx(
   };
 }
 
-function getHeadLocal(vehicleId: VehicleId) {
-  if (vehicleId === "sportsCar") {
-    const target = getSportsCarHeadTargetPx(VEHICLES.sportsCar.physics);
-    return Vec2(target.x / SCALE, -target.y / SCALE);
-  }
-  if (vehicleId === "jeep") {
-    const target = getJeepHeadTargetPx(VEHICLES.jeep.physics);
-    return Vec2(target.x / SCALE, -target.y / SCALE);
-  }
-  return Vec2(-0.25, 0.75);
+type BodyPose = Pick<planck.Body, "getPosition" | "getAngle">;
+type RigPose = { chassis: BodyPose; wheels: BodyPose[] };
+
+function carPose(car: CarRig): GhostPose {
+  const p = car.chassis.getPosition();
+  return { x: p.x, y: p.y, angle: car.chassis.getAngle(), wheel1Angle: car.wheels[0].getAngle(), wheel2Angle: car.wheels[car.wheels.length - 1].getAngle() };
 }
 
-function drawVehicle(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, car: CarRig, dpr: number, headId: HeadId, headImg: HTMLImageElement | null, headImg2: HTMLImageElement | null, jeepBodyImg: HTMLImageElement | null, jeepWheelImg: HTMLImageElement | null, sportsCarBodyImg: HTMLImageElement | null, sportsCarWheelImg: HTMLImageElement | null, miniMode: boolean, isPhoneViewport: boolean, vehicleId: VehicleId, screenGroundY: number) {
+// Ghost frames only keep the chassis; wheels sit at their rest anchors, which is close enough at ghost alpha.
+// Every wheel on an axle turns with the angle recorded for that axle.
+function ghostRig(pose: GhostPose, vPhys: VehiclePhysics, rig: VehicleRig): RigPose {
+  const c = Math.cos(pose.angle), s = Math.sin(pose.angle);
+  const ly = vPhys.wheelRadius + 0.2 - vPhys.spawnY;
+  const wheel = (lx: number, angle: number): BodyPose => ({
+    getPosition: () => Vec2(pose.x + lx * c - ly * s, pose.y + lx * s + ly * c),
+    getAngle: () => angle,
+  });
+  return {
+    chassis: { getPosition: () => Vec2(pose.x, pose.y), getAngle: () => pose.angle },
+    wheels: rig.wheels.map(w => wheel(w.x, w.axle === "rear" ? pose.wheel1Angle : pose.wheel2Angle)),
+  };
+}
+
+function drawVehicle(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, car: RigPose, dpr: number, headId: HeadId, headImg: HTMLImageElement | null, headImg2: HTMLImageElement | null, art: VehicleArtImages | undefined, miniMode: boolean, isPhoneViewport: boolean, vehicleId: VehicleId, screenGroundY: number, driverSeated: boolean) {
   const chassis = car.chassis; const p = chassis.getPosition(); const a = chassis.getAngle(); const sp = toScreen(p);
-  const vPhys = VEHICLES[vehicleId].physics; const vVis = VEHICLES[vehicleId].visual;
+  const vPhys = { ...VEHICLES[vehicleId].physics, wheelbase: halfWheelbase(VEHICLES[vehicleId]) }; const vVis = VEHICLES[vehicleId].visual;
   const artTuning = getVehicleArtTuning(vehicleId, isPhoneViewport);
+  const bodyImg = art && art.body.complete ? art.body : null;
+  const wheelImg = art && art.wheel.complete ? art.wheel : null;
+  const lastWheel = car.wheels.length - 1;
 
   if (!miniMode) {
     const heightDiff = Math.max(0, screenGroundY - sp.y);
     const shadowAlpha = Math.max(0.02, 0.25 - (heightDiff * 0.0015));
     const shadowSize = (vehicleId === "bicycle" ? 50 : 92) * dpr * Math.max(0.4, 1 - (heightDiff * 0.002));
-    ctx.save(); ctx.globalAlpha = shadowAlpha; ctx.fillStyle = "#000"; ctx.beginPath();
+    ctx.save(); ctx.globalAlpha *= shadowAlpha; ctx.fillStyle = "#000"; ctx.beginPath();
     ctx.ellipse(sp.x, screenGroundY, shadowSize, 14 * dpr, 0, 0, Math.PI * 2); ctx.fill(); ctx.restore();
   }
 
-  if (vehicleId === "sportsCar" && sportsCarWheelImg && sportsCarWheelImg.complete) {
-    drawSportsCarWheel(ctx, toScreen(car.wheel1.getPosition()), car.wheel1.getAngle(), chassis.getAngle(), vPhys.wheelRadius, dpr, sportsCarWheelImg, artTuning.wheelSizeMult, artTuning.rearWheelOffsetXPx, artTuning.wheelOffsetYPx);
-    drawSportsCarWheel(ctx, toScreen(car.wheel2.getPosition()), car.wheel2.getAngle(), chassis.getAngle(), vPhys.wheelRadius, dpr, sportsCarWheelImg, artTuning.wheelSizeMult, artTuning.frontWheelOffsetXPx, artTuning.wheelOffsetYPx);
-  } else if (vehicleId === "jeep" && jeepWheelImg && jeepWheelImg.complete) {
-    drawJeepWheel(ctx, toScreen(car.wheel1.getPosition()), car.wheel1.getAngle(), chassis.getAngle(), vPhys.wheelRadius, dpr, jeepWheelImg, artTuning.rearWheelOffsetXPx, artTuning.wheelOffsetYPx, artTuning.wheelSizeMult);
-    drawJeepWheel(ctx, toScreen(car.wheel2.getPosition()), car.wheel2.getAngle(), chassis.getAngle(), vPhys.wheelRadius, dpr, jeepWheelImg, artTuning.frontWheelOffsetXPx, artTuning.wheelOffsetYPx, artTuning.wheelSizeMult);
-  } else {
-    drawWheel(ctx, toScreen(car.wheel1.getPosition()), car.wheel1.getAngle(), vPhys.wheelRadius, dpr);
-    drawWheel(ctx, toScreen(car.wheel2.getPosition()), car.wheel2.getAngle(), vPhys.wheelRadius, dpr);
-  }
+  if (vVis.tracks) drawTrackBelt(ctx, car.wheels.map(w => toScreen(w.getPosition())), vPhys.wheelRadius, dpr, vVis.accentColor);
+
+  car.wheels.forEach((wheel, i) => {
+    const wsp = toScreen(wheel.getPosition());
+    const offsetXPx = i === lastWheel ? artTuning.frontWheelOffsetXPx : artTuning.rearWheelOffsetXPx;
+    if (vehicleId === "sportsCar" && wheelImg) {
+      drawSportsCarWheel(ctx, wsp, wheel.getAngle(), chassis.getAngle(), vPhys.wheelRadius, dpr, wheelImg, artTuning.wheelSizeMult, offsetXPx, artTuning.wheelOffsetYPx);
+    } else if (wheelImg) {
+      drawJeepWheel(ctx, wsp, wheel.getAngle(), chassis.getAngle(), vPhys.wheelRadius, dpr, wheelImg, offsetXPx, artTuning.wheelOffsetYPx, artTuning.wheelSizeMult);
+    } else {
+      drawWheel(ctx, wsp, wheel.getAngle(), vPhys.wheelRadius, dpr);
+    }
+  });
 
   ctx.save(); ctx.translate(sp.x, sp.y); ctx.rotate(-a);
   const BODY_BASE_PX_PER_M = 45;
@@ -1843,14 +1883,14 @@ function drawVehicle(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) =
     ctx.beginPath(); ctx.moveTo(18, -43); ctx.lineTo(24, -45); ctx.stroke();
   }
   else if (vehicleId === "sportsCar") {
-    if (sportsCarBodyImg && sportsCarBodyImg.complete) {
+    if (bodyImg) {
       // Pixel-matched to the supplied artwork: the body is scaled from the two wheel-hole centers,
       // so the physics wheel bodies stay visually inside the arches instead of drifting by eye.
-      const { bodyX, bodyY, bodyW, bodyH } = getSportsCarBodyLayout(vPhys, sportsCarBodyImg.naturalWidth, sportsCarBodyImg.naturalHeight, artTuning);
+      const { bodyX, bodyY, bodyW, bodyH } = getSportsCarBodyLayout(vPhys, bodyImg.naturalWidth, bodyImg.naturalHeight, artTuning);
       ctx.save();
       ctx.imageSmoothingEnabled = true;
       ctx.imageSmoothingQuality = "high";
-      ctx.drawImage(sportsCarBodyImg, bodyX, bodyY, bodyW, bodyH);
+      ctx.drawImage(bodyImg, bodyX, bodyY, bodyW, bodyH);
       ctx.restore();
     } else {
       const bodyGrad = ctx.createLinearGradient(0, -40, 0, 30);
@@ -1875,17 +1915,33 @@ function drawVehicle(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) =
     }
   }
   else if (vehicleId === "jeep") {
-    if (jeepBodyImg && jeepBodyImg.complete) {
-      const { bodyX, bodyY, bodyW, bodyH } = getJeepBodyLayout(vPhys, jeepBodyImg.naturalWidth, jeepBodyImg.naturalHeight, artTuning);
+    if (bodyImg) {
+      const { bodyX, bodyY, bodyW, bodyH } = getJeepBodyLayout(vPhys, bodyImg.naturalWidth, bodyImg.naturalHeight, artTuning);
+      ctx.save();
+      ctx.imageSmoothingEnabled = true;
+      ctx.imageSmoothingQuality = "high";
+      ctx.drawImage(bodyImg, bodyX, bodyY, bodyW, bodyH);
+      ctx.restore();
+    }
+  }
+  else if (vVis.art?.bodySize) {
+    // Sprites authored in metres: centred on `bodyCenter`, same chassis space as the rig.
+    const [bw, bh] = vVis.art.bodySize, [bcx, bcy] = vVis.art.bodyCenter ?? [0, 0];
+    if (bodyImg) {
       ctx.save();
       ctx.imageSmoothingEnabled = true;
       ctx.imageSmoothingQuality = "high";
-      ctx.drawImage(jeepBodyImg, bodyX, bodyY, bodyW, bodyH);
+      ctx.drawImage(bodyImg, (bcx - bw / 2) * SCALE, -(bcy + bh / 2) * SCALE, bw * SCALE, bh * SCALE);
       ctx.restore();
+    } else {
+      ctx.fillStyle = vVis.bodyColor; ctx.strokeStyle = "rgba(0,0,0,0.6)"; ctx.lineWidth = 3;
+      roundRect(ctx, (bcx - bw / 2) * SCALE, -(bcy + bh / 4) * SCALE, bw * SCALE, bh * SCALE / 2, 6); ctx.fill(); ctx.stroke();
     }
   }
 
   // --- DRIVER RENDERING ---
+  // Once thrown, drawRagdoll draws the driver where they landed.
+  if (!driverSeated) { ctx.restore(); return; }
   ctx.save(); ctx.fillStyle = "#2b1a0f"; ctx.strokeStyle = "rgba(0,0,0,0.35)"; ctx.lineWidth = 3;
   if (vehicleId === "bicycle") {
     // Advanced Rider Body for Dirt Bike
@@ -1957,6 +2013,9 @@ function drawVehicle(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) =
   else if (vehicleId === "jeep") {
     // The new jeep artwork already includes the seat and steering wheel, so only the selected head is drawn.
   }
+  else if (vVis.art?.bodySize) {
+    // The cab or hatch is part of the body art; the head sits on the rig's head sensor.
+  }
   else { roundRect(ctx, -24, -32, 18, 18, 6); ctx.fill(); ctx.stroke(); }
   ctx.restore();
 
@@ -1967,27 +2026,60 @@ function drawVehicle(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) =
 
     if (vehicleId === "bicycle") { hx += 10; hy -= 32; }
     else if (vehicleId === "sportsCar") {
-      const target = sportsCarBodyImg && sportsCarBodyImg.complete
-        ? getSportsCarHeadTargetPx(vPhys, sportsCarBodyImg.naturalWidth, sportsCarBodyImg.naturalHeight, artTuning)
+      const target = bodyImg
+        ? getSportsCarHeadTargetPx(vPhys, bodyImg.naturalWidth, bodyImg.naturalHeight, artTuning)
         : { x: cfg.x + 25, y: cfg.y + 64 };
       headSize = Math.round(cfg.size * artTuning.headSizeMult);
       hx = target.x - headSize / 2;
       hy = target.y - headSize / 2;
     }
     else if (vehicleId === "jeep") {
-      const target = jeepBodyImg && jeepBodyImg.complete
-        ? getJeepHeadTargetPx(vPhys, jeepBodyImg.naturalWidth, jeepBodyImg.naturalHeight, artTuning)
+      const target = bodyImg
+        ? getJeepHeadTargetPx(vPhys, bodyImg.naturalWidth, bodyImg.naturalHeight, artTuning)
         : { x: cfg.x + 20, y: cfg.y + 52 };
       headSize = Math.round(cfg.size * artTuning.headSizeMult);
       hx = target.x - headSize / 2;
       hy = target.y - headSize / 2;
     }
+    else if (vVis.art?.bodySize) {
+      const { x, y } = VEHICLES[vehicleId].rig.head;
+      headSize = Math.round(cfg.size * artTuning.headSizeMult);
+      hx = x * SCALE - headSize / 2;
+      hy = -y * SCALE - headSize / 2;
+    }
 
     ctx.drawImage(head, hx, hy, headSize, headSize);
   }
   ctx.restore();
 }
 
+// The thrown driver: plain limbs in the vehicle's colour under the chosen head sprite.
+function drawRagdoll(ctx: CanvasRenderingContext2D, toScreen: (v: planck.Vec2) => { x: number; y: number }, driver: Driver, dpr: number, headId: HeadId, headImg: HTMLImageElement | null, headImg2: HTMLImageElement | null, shirtColor: string) {
+  const limbColor: Record<Limb, string> = { leg: "#1e3a5f", torso: shirtColor, arm: shirtColor };
+  ctx.save();
+  ctx.strokeStyle = "rgba(0,0,0,0.45)"; ctx.lineWidth = 2 * dpr;
+  for (const k of ["leg", "torso", "arm"] as Limb[]) {
+    const b = driver.parts[k], sp = toScreen(b.getPosition());
+    const w = LIMB_SIZE[k].hw * SCALE * dpr, h = LIMB_SIZE[k].hh * SCALE * dpr;
+    ctx.save(); ctx.translate(sp.x, sp.y); ctx.rotate(-b.getAngle());
+    ctx.fillStyle = limbColor[k];
+    roundRect(ctx, -w, -h, w * 2, h * 2, Math.min(w, h)); ctx.fill(); ctx.stroke();
+    if (k === "arm") { ctx.fillStyle = "#f3ae7d"; ctx.beginPath(); ctx.arc(w, 0, h * 1.1, 0, Math.PI * 2); ctx.fill(); }
+    ctx.restore();
+  }
+  const head = driver.parts.head, hp = toScreen(head.getPosition());
+  const img = headId === "brian" ? headImg2 : headImg;
+  const size = SKULL_R * 2.3 * SCALE * dpr;
+  ctx.translate(hp.x, hp.y); ctx.rotate(-head.getAngle());
+  if (img && img.complete) {
+    ctx.imageSmoothingEnabled = false;
+    ctx.drawImage(img, -size / 2, -size / 2, size, size);
+  } else {
+    ctx.fillStyle = "#f3ae7d"; ctx.beginPath(); ctx.arc(0, 0, size / 2.3, 0, Math.PI * 2); ctx.fill(); ctx.stroke();
+  }
+  ctx.restore();
+}
+
 function drawJeepWheel(
   ctx: CanvasRenderingContext2D,
   sp: { x: number; y: number },
@@ -2027,6 +2119,27 @@ function drawSportsCarWheel(ctx: CanvasRenderingContext2D, sp: { x: number; y: n
   ctx.restore();
 }
 
+// Taut over the top, hugging each road wheel underneath so the belt follows the suspension.
+function drawTrackBelt(ctx: CanvasRenderingContext2D, wheels: { x: number; y: number }[], radiusM: number, dpr: number, color: string) {
+  const first = wheels[0], last = wheels[wheels.length - 1];
+  const len = Math.hypot(last.x - first.x, last.y - first.y) || 1;
+  const nx = (last.y - first.y) / len, ny = -(last.x - first.x) / len;  // up, away from the ground
+  const r = radiusM * SCALE * dpr * 1.14;
+  const a = Math.atan2(ny, nx);
+  ctx.save();
+  ctx.beginPath();
+  ctx.moveTo(first.x + nx * r, first.y + ny * r);
+  ctx.lineTo(last.x + nx * r, last.y + ny * r);
+  ctx.arc(last.x, last.y, r, a, a + Math.PI);
+  for (let i = wheels.length - 1; i >= 0; i--) ctx.lineTo(wheels[i].x - nx * r, wheels[i].y - ny * r);
+  ctx.arc(first.x, first.y, r, a + Math.PI, a + Math.PI * 2);
+  ctx.closePath();
+  ctx.fillStyle = "#1f2421"; ctx.fill();
+  ctx.lineWidth = 3 * dpr; ctx.strokeStyle = color;
+  ctx.setLineDash([4 * dpr, 3 * dpr]); ctx.stroke();
+  ctx.restore();
+}
+
 function drawWheel(ctx: CanvasRenderingContext2D, sp: { x: number; y: number }, ang: number, radiusM: number, dpr: number) {
   const r = radiusM * SCALE * dpr;
   ctx.save(); ctx.translate(sp.x, sp.y); ctx.rotate(-ang);
@@ -0,0 +1,111 @@
+"use client";
+import React, { useEffect, useState } from "react";
+import { MapId, MAPS } from "@/lib/maps";
+import type { Leaderboard, LeaderboardEntry } from "@/lib/leaderboard";
+
+type View = "all" | "daily" | "map";
+
+const PAGE_SIZE = 20;
+const MAP_ORDER: MapId[] = ["hills", "desert", "arctic", "moon"];
+
+export interface LeaderboardPanelProps {
+  walletAddress?: string | null;
+  dailyDay: number | null;        // today's UTC day, null until the menu clock starts
+  refreshBlock: number | null;    // block of the player's latest confirmed score
+}
+
+function shortAddress(address: string) {
+  return `${address.slice(0, 6)}…${address.slice(-4)}`;
+}
+
+function fmtDate(at: number) {
+  return at > 0 ? new Date(at * 1000).toLocaleDateString(undefined, { month: "short", day: "numeric" }) : "—";
+}
+
+function Row({ e, own }: { e: LeaderboardEntry; own: boolean }) {
+  return (
+    <div className={`gm-lbRow ${own ? "own" : ""}`}>
+      <span className="gm-lbRank">{e.rank <= 3 ? ["🥇", "🥈", "🥉"][e.rank - 1] : `#${e.rank}`}</span>
+      <span className="gm-lbName" title={e.address}>{e.name ?? shortAddress(e.address)}{own ? " (you)" : ""}</span>
+      <span className="gm-lbMeters">{e.meters}m</span>
+      <span className="gm-lbDate">{fmtDate(e.at)}</span>
+    </div>
+  );
+}
+
+export function LeaderboardPanel({ walletAddress, dailyDay, refreshBlock }: LeaderboardPanelProps) {
+  const [view, setView] = useState<View>("all");
+  const [mapId, setMapId] = useState<MapId>("hills");
+  const [page, setPage] = useState<{ board: string | null; offset: number }>({ board: null, offset: 0 });
+  const [data, setData] = useState<Leaderboard | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState("");
+
+  const board = view === "all" ? "all" : view === "map" ? `map:${mapId}` : dailyDay !== null ? `daily:${dailyDay}` : null;
+
+  // The offset belongs to the board it was paged on, so a new board starts at the top in the same
+  // render and only that one request goes out.
+  const offset = page.board === board ? page.offset : 0;
+  const turnPage = (delta: number) => setPage({ board, offset: Math.max(0, offset + delta) });
+
+  useEffect(() => {
+    if (!board) return;
+    const q = new URLSearchParams({ board, offset: String(offset), limit: String(PAGE_SIZE) });
+    if (walletAddress) q.set("address", walletAddress);
+    if (refreshBlock !== null) q.set("minBlock", String(refreshBlock));
+    const ctrl = new AbortController();
+    setLoading(true); setError("");
+    (async () => {
+      try {
+        const r = await fetch(`/api/leaderboard?${q}`, { cache: "no-store", signal: ctrl.signal });
+        const j = await r.json();
+        if (!r.ok) throw new Error(j?.error ?? "Leaderboard unavailable");
+        setData(j as Leaderboard);
+      } catch (e: any) {
+        if (ctrl.signal.aborted) return;
+        setError(e?.message ? String(e.message) : "Leaderboard unavailable");
+      } finally {
+        if (!ctrl.signal.aborted) setLoading(false);
+      }
+    })();
+    return () => ctrl.abort();
+  }, [board, offset, walletAddress, refreshBlock]);
+
+  const own = (a: string) => Boolean(walletAddress) && a.toLowerCase() === walletAddress!.toLowerCase();
+  const shown = data && data.board === board ? data : null;
+  const ownOnPage = shown?.entries.some(e => own(e.address)) ?? false;
+
+  return (
+    <div>
+      <div className="gm-sec">🏁 Leaderboard</div>
+      <div className="gm-lbTabs">
+        {([["all", "All-time"], ["daily", "Today's daily"], ["map", "By map"]] as [View, string][]).map(([v, l]) => (
+          <button key={v} type="button" className={`gm-lbTab ${view === v ? "on" : ""}`} onClick={() => setView(v)}>{l}</button>
+        ))}
+      </div>
+      {view === "map" ? (
+        <div className="gm-lbTabs">
+          {MAP_ORDER.map(m => (
+            <button key={m} type="button" className={`gm-lbTab ${mapId === m ? "on" : ""}`} onClick={() => setMapId(m)}>{MAPS[m].emoji} {MAPS[m].name}</button>
+          ))}
+        </div>
+      ) : null}
+
+      <div className="gm-c" style={{ padding: "6px 0" }}>
+        {error ? <div className="gm-lbNote" style={{ color: "#d73535" }}>⚠ {error}</div>
+          : !shown ? <div className="gm-lbNote">Loading…</div>
+          : shown.entries.length === 0 ? <div className="gm-lbNote">No scores yet{view === "daily" ? " for today's challenge" : ""}.</div>
+          : shown.entries.map(e => <Row key={e.address} e={e} own={own(e.address)} />)}
+        {shown?.player && !ownOnPage ? <div className="gm-lbPinned"><Row e={shown.player} own /></div> : null}
+      </div>
+
+      <div className="gm-lbPager">
+        <button type="button" className="gm-lbTab" disabled={loading || offset === 0} onClick={() => turnPage(-PAGE_SIZE)}>‹ Prev</button>
+        <span className="gm-lbNote" style={{ padding: 0 }}>
+          {loading ? "Refreshing…" : shown ? `${shown.players} player${shown.players === 1 ? "" : "s"}${shown.catchingUp ? " · indexing history" : ""}` : ""}
+        </span>
+        <button type="button" className="gm-lbTab" disabled={loading || !shown || offset + PAGE_SIZE >= shown.players} onClick={() => turnPage(PAGE_SIZE)}>Next ›</button>
+      </div>
+    </div>
+  );
+}
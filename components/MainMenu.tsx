@@ -1,13 +1,21 @@
 "use client";
 import React, { useRef, useState, useCallback } from "react";
-import { VehicleId, VEHICLES, VehicleConfig } from "@/lib/vehicles";
+import { VehicleId, VEHICLES, VEHICLE_IDS, VehicleConfig } from "@/lib/vehicles";
 import { MapId, MAPS } from "@/lib/maps";
 import { AllUpgrades, UPGRADE_CATEGORIES, UPGRADE_META, MAX_LEVEL, upgradeCostForLevel } from "@/lib/upgrades";
-import { UnlockedVehicles } from "@/lib/garage";
+import { UnlockedVehicles, isVehicleUnlocked } from "@/lib/garage";
 import { UnlockedAchievements, ACHIEVEMENTS } from "@/lib/achievements";
 import { HeadId, HEADS } from "@/lib/heads";
+import { DailyChallenge, DailyRecord } from "@/lib/modes";
+import { StageId, StageProgress, STAGES, STAGE_ORDER, isStageUnlocked } from "@/lib/stages";
+import { LeaderboardPanel } from "@/components/LeaderboardPanel";
 
-type Tab = "home" | "garage" | "maps" | "upgrades" | "achievements";
+type Tab = "home" | "garage" | "maps" | "upgrades" | "achievements" | "leaderboard";
+
+export interface DailyMenuInfo {
+  msLeft: number;   // until the next UTC reset
+  days: { challenge: DailyChallenge; label: string; record: DailyRecord }[];   // today first
+}
 
 export interface MainMenuProps {
   coins: number;
@@ -20,6 +28,13 @@ export interface MainMenuProps {
   achievements: UnlockedAchievements;
   totalRuns: number;
   onPlay: () => void;
+  daily: DailyMenuInfo | null;
+  onPlayDaily: (day: number) => void;
+  onPlayDailyCargo: (day: number) => void;
+  stageProgress: StageProgress;
+  onPlayStage: (id: StageId) => void;
+  freeSeedText: string;
+  onFreeSeedTextChange: (text: string) => void;
   onSelectVehicle: (id: VehicleId) => void;
   onSelectMap: (id: MapId) => void;
   onSelectHead: (id: HeadId) => void;
@@ -31,11 +46,17 @@ export interface MainMenuProps {
   walletError?: string;
   onConnectWallet?: () => void;
   onDisconnectWallet?: () => void;
+  leaderboardRefreshBlock?: number | null;
 }
 
-const VEHICLE_ORDER: VehicleId[] = ["jeep", "bicycle", "sportsCar"];
 const MAP_ORDER: MapId[] = ["hills", "desert", "arctic", "moon"];
 
+function fmtCountdown(ms: number) {
+  const t = Math.max(0, Math.floor(ms / 1000));
+  const hh = Math.floor(t / 3600), mm = Math.floor(t / 60) % 60, ss = t % 60;
+  return `${hh}:${String(mm).padStart(2, "0")}:${String(ss).padStart(2, "0")}`;
+}
+
 function shortWalletAddress(address?: string | null) {
   if (!address) return "";
   return address.length > 12 ? `${address.slice(0, 6)}…${address.slice(-4)}` : address;
@@ -137,6 +158,49 @@ const CSS = `
 .gm-mthumb{width:56px;height:56px;border-radius:16px;flex-shrink:0;display:flex;align-items:center;justify-content:center;font-size:26px;position:relative;overflow:hidden;box-shadow:0 2px 8px rgba(0,0,0,.1)}
 .gm-mthumb::after{content:'';position:absolute;inset:0;background:linear-gradient(180deg,rgba(255,255,255,.2) 0%,transparent 50%);border-radius:inherit}
 
+/* daily challenge */
+.gm-daily{padding:18px 16px;background:linear-gradient(150deg,#2a1f0e 0%,#4a3516 100%);color:#fff}
+.gm-dailyRow{display:flex;align-items:center;gap:12px}
+.gm-dailyRow+.gm-dailyRow{margin-top:10px;padding-top:10px;border-top:1px solid rgba(255,255,255,.10)}
+.gm-dailyGo{appearance:none;border:none;border-radius:999px;padding:10px 18px;font-family:'Nunito',sans-serif;font-size:13px;font-weight:900;color:#2a1f0e;background:linear-gradient(135deg,#f5d88a,#d4ab55);cursor:pointer;white-space:nowrap}
+.gm-dailyGo.alt{background:rgba(255,255,255,.14);color:#fff}
+.gm-dailyGo:active{transform:scale(.96)}
+
+/* stage map */
+.gm-stages{padding:18px 16px}
+.gm-stagePath{display:flex;align-items:flex-start;overflow-x:auto;padding:4px 2px 2px}
+.gm-stage{appearance:none;border:none;background:none;padding:0;display:flex;flex-direction:column;align-items:center;gap:4px;width:74px;flex-shrink:0;font-family:'Nunito',sans-serif;cursor:pointer;color:#2a1f0e}
+.gm-stage:disabled{cursor:default;opacity:.45}
+.gm-stageNode{width:52px;height:52px;border-radius:50%;display:flex;align-items:center;justify-content:center;font-size:22px;background:#faf6ed;border:3px solid #ede5d8;box-shadow:0 2px 8px rgba(42,31,14,.08)}
+.gm-stage.done .gm-stageNode{border-color:#d4ab55;background:#fff8e6}
+.gm-stage.next .gm-stageNode{border-color:#b8892c;box-shadow:0 0 0 4px rgba(212,171,85,.25)}
+.gm-stage:not(:disabled):active .gm-stageNode{transform:scale(.94)}
+.gm-stageName{font-size:10px;font-weight:800;text-align:center;line-height:1.15}
+.gm-stageStars{font-size:12px;letter-spacing:1px;color:#d4ab55}
+.gm-stageLink{flex:1;min-width:10px;height:3px;margin-top:26px;border-radius:2px;background:#ede5d8}
+.gm-stageLink.on{background:#d4ab55}
+
+/* free play seed */
+.gm-seed{display:flex;gap:8px;align-items:center;padding:14px 16px}
+.gm-seedInput{flex:1;min-width:0;border:1px solid #ede5d8;border-radius:12px;background:#faf6ed;padding:10px 12px;font-family:'Nunito',sans-serif;font-size:14px;font-weight:800;color:#2a1f0e;outline:none}
+.gm-seedInput:focus{border-color:#d4ab55}
+
+/* leaderboard */
+.gm-lbTabs{display:flex;gap:6px;margin:-4px 0 12px;overflow-x:auto}
+.gm-lbTab{appearance:none;border:1px solid rgba(42,31,14,.08);border-radius:999px;background:#fff;color:#6b5d4a;padding:7px 13px;font-family:'Nunito',sans-serif;font-size:12px;font-weight:800;cursor:pointer;white-space:nowrap}
+.gm-lbTab.on{background:linear-gradient(135deg,#b8892c,#d4ab55);color:#fff;border-color:transparent}
+.gm-lbTab:disabled{opacity:.45;cursor:default}
+.gm-lbRow{display:grid;grid-template-columns:44px 1fr auto 56px;gap:8px;align-items:center;padding:11px 16px;font-size:13px;font-weight:700}
+.gm-lbRow+.gm-lbRow{border-top:1px solid #f0ebe0}
+.gm-lbRow.own{background:rgba(212,171,85,.14)}
+.gm-lbRank{font-weight:900;color:#b8892c}
+.gm-lbName{overflow:hidden;text-overflow:ellipsis;white-space:nowrap}
+.gm-lbMeters{font-weight:900}
+.gm-lbDate{font-size:11px;color:#b0a48e;text-align:right}
+.gm-lbPinned{border-top:2px dashed #ede5d8}
+.gm-lbNote{padding:16px;font-size:12px;font-weight:700;color:#8a7d6a;text-align:center}
+.gm-lbPager{display:flex;align-items:center;justify-content:space-between;gap:8px;margin-top:12px}
+
 /* fade in */
 @keyframes gmUp{from{opacity:0;transform:translateY(14px)}to{opacity:1;transform:translateY(0)}}
 .gm-body>div{animation:gmUp .4s ease both}
@@ -149,8 +213,9 @@ const CSS = `
 export function MainMenu({
   coins, bestM, selectedVehicle, selectedMap, selectedHead,
   garage, upgrades, achievements, totalRuns,
-  onPlay, onSelectVehicle, onSelectMap, onSelectHead, onPurchaseVehicle, onUpgrade,
+  onPlay, daily, onPlayDaily, onPlayDailyCargo, stageProgress, onPlayStage, freeSeedText, onFreeSeedTextChange, onSelectVehicle, onSelectMap, onSelectHead, onPurchaseVehicle, onUpgrade,
   walletAddress, walletSource, connectBusy = false, walletError = "", onConnectWallet, onDisconnectWallet,
+  leaderboardRefreshBlock = null,
 }: MainMenuProps) {
   const [tab, setTab] = useState<Tab>("home");
   const scrollRef = useRef<HTMLDivElement>(null);
@@ -163,7 +228,7 @@ export function MainMenu({
   const vc = VEHICLES[selectedVehicle];
   const mc = MAPS[selectedMap];
   const upg = upgrades[selectedVehicle];
-  const unlockedCount = VEHICLE_ORDER.filter(id => id === "jeep" || id === "bicycle" || garage[id]).length;
+  const unlockedCount = VEHICLE_IDS.filter(id => isVehicleUnlocked(id, garage)).length;
   const achCount = Object.keys(achievements).length;
 
   const statColors = { Speed: "#e25c3e", Grip: "#38a169", Stability: "#3b82f6", Fuel: "#d4ab55" };
@@ -247,11 +312,66 @@ export function MainMenu({
               </div>
             </div>
 
+            {/* Daily challenge */}
+            {daily ? (
+              <div className="gm-c gm-daily">
+                <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+                  <span style={{ fontSize: 17, fontWeight: 900 }}>📅 Daily Challenge</span>
+                  <span className="gm-pill" style={{ background: "rgba(255,255,255,.12)", color: "#f5d88a" }}>⏱ {fmtCountdown(daily.msLeft)}</span>
+                </div>
+                {daily.days.map(({ challenge: c, label, record }, i) => (
+                  <div key={c.day} className="gm-dailyRow">
+                    <div style={{ fontSize: 26 }}>{MAPS[c.mapId].emoji}{VEHICLES[c.vehicleId].emoji}</div>
+                    <div style={{ flex: 1, minWidth: 0 }}>
+                      <div style={{ fontSize: 14, fontWeight: 900 }}>{label} · {MAPS[c.mapId].name} · {VEHICLES[c.vehicleId].name}</div>
+                      <div style={{ fontSize: 11, fontWeight: 700, opacity: .7 }}>
+                        {record.attempts > 0 ? `🏆 ${record.bestM}m · ${record.attempts} attempt${record.attempts === 1 ? "" : "s"}` : "Not attempted yet"}
+                        {record.bestCargo > 0 ? ` · 📦 ${record.bestCargo} delivered` : ""}
+                      </div>
+                    </div>
+                    <button type="button" className="gm-dailyGo alt" onClick={() => onPlayDailyCargo(c.day)} title="Haul crates to the depot">📦 Haul</button>
+                    <button type="button" className={`gm-dailyGo ${i > 0 ? "alt" : ""}`} onClick={() => onPlayDaily(c.day)}>{record.attempts > 0 ? "Retry" : "Play"}</button>
+                  </div>
+                ))}
+                <div style={{ fontSize: 10, fontWeight: 700, opacity: .55, marginTop: 12 }}>Same track, map and car for everyone. Stock upgrades. Haul runs carry crates to a depot instead.</div>
+              </div>
+            ) : null}
+
+            {/* Stages */}
+            <div className="gm-c gm-stages">
+              <div style={{ display: "flex", alignItems: "center", justifyContent: "space-between", marginBottom: 12 }}>
+                <span style={{ fontSize: 17, fontWeight: 900 }}>🚩 Stages</span>
+                <span className="gm-pill" style={{ background: "#fef3c7", color: "#b8892c" }}>
+                  ★ {STAGE_ORDER.reduce((n, id) => n + (stageProgress[id]?.stars ?? 0), 0)}/{STAGE_ORDER.length * 3}
+                </span>
+              </div>
+              <div className="gm-stagePath">
+                {STAGE_ORDER.map((id, i) => {
+                  const st = STAGES[id];
+                  const stars = stageProgress[id]?.stars ?? 0;
+                  const unlocked = isStageUnlocked(stageProgress, id);
+                  return (
+                    <React.Fragment key={id}>
+                      {i > 0 ? <div className={`gm-stageLink ${unlocked ? "on" : ""}`} /> : null}
+                      <button type="button" disabled={!unlocked} onClick={() => onPlayStage(id)}
+                        className={`gm-stage ${stars > 0 ? "done" : unlocked ? "next" : ""}`}
+                        title={unlocked ? `${st.name} · ${MAPS[st.mapId].name} · ${VEHICLES[st.vehicleId].name}` : "Finish the previous stage to unlock"}>
+                        <div className="gm-stageNode">{unlocked ? MAPS[st.mapId].emoji : "🔒"}</div>
+                        <div className="gm-stageName">{i + 1}. {st.name}</div>
+                        <div className="gm-stageStars">{"★".repeat(stars)}{"☆".repeat(3 - stars)}</div>
+                      </button>
+                    </React.Fragment>
+                  );
+                })}
+              </div>
+              <div style={{ fontSize: 10, fontWeight: 700, color: "#b0a48e", marginTop: 10 }}>Reach the finish line. Stars for time, coins and fuel left.</div>
+            </div>
+
             {/* Stats row */}
             <div style={{ display: "grid", gridTemplateColumns: "1fr 1fr 1fr", gap: 10 }}>
               {[
                 { ico: "🏆", val: `${bestM}m`, label: "Best Run", tint: "#f3e8ff", accent: "#8b5cf6" },
-                { ico: "🚗", val: `${unlockedCount}/${VEHICLE_ORDER.length}`, label: "Cars", tint: "#fef3c7", accent: "#b8892c" },
+                { ico: "🚗", val: `${unlockedCount}/${VEHICLE_IDS.length}`, label: "Cars", tint: "#fef3c7", accent: "#b8892c" },
                 { ico: "🏅", val: `${achCount}/11`, label: "Trophies", tint: "#fee2e2", accent: "#e25c3e" },
               ].map(s => (
                 <div key={s.label} className="gm-c" style={{ padding: "16px 10px", textAlign: "center" }}>
@@ -330,9 +450,9 @@ export function MainMenu({
             <div>
               <div className="gm-sec">🚗 Cars</div>
               <div style={{ display: "flex", flexDirection: "column", gap: 12 }}>
-                {VEHICLE_ORDER.map(vid => {
+                {VEHICLE_IDS.map(vid => {
                   const v = VEHICLES[vid];
-                  const unlocked = vid === "jeep" || vid === "bicycle" || Boolean(garage[vid]);
+                  const unlocked = isVehicleUnlocked(vid, garage);
                   const active = selectedVehicle === vid;
                   const canBuy = !unlocked && coins >= v.price;
 
@@ -429,6 +549,14 @@ export function MainMenu({
                 );
               })}
             </div>
+
+            <div className="gm-sec" style={{ marginTop: 22 }}>🌱 Track Seed</div>
+            <div style={{ fontSize: 13, color: "#8a7d6a", marginBottom: 12, marginTop: -8 }}>Leave empty for a random track, or enter a number or word to share one</div>
+            <div className="gm-c gm-seed">
+              <input className="gm-seedInput" placeholder="Random" value={freeSeedText} maxLength={32}
+                onChange={e => onFreeSeedTextChange(e.target.value)} aria-label="Track seed" />
+              {freeSeedText ? <button type="button" className="gm-walletPower" onClick={() => onFreeSeedTextChange("")} aria-label="Clear seed">✕</button> : null}
+            </div>
           </div>
         )}
 
@@ -538,6 +666,15 @@ export function MainMenu({
             </div>
           </div>
         )}
+
+        {/* ══════ LEADERBOARD ══════ */}
+        {tab === "leaderboard" && (
+          <LeaderboardPanel
+            walletAddress={walletAddress}
+            dailyDay={daily?.days[0]?.challenge.day ?? null}
+            refreshBlock={leaderboardRefreshBlock}
+          />
+        )}
       </div>
 
       {/* ═══ BOTTOM NAV ═══ */}
@@ -548,6 +685,7 @@ export function MainMenu({
           { id: "maps" as Tab, ico: "🗺️", l: "Maps" },
           { id: "upgrades" as Tab, ico: "⚙️", l: "Upgrade" },
           { id: "achievements" as Tab, ico: "🏅", l: "Trophies" },
+          { id: "leaderboard" as Tab, ico: "🏁", l: "Ranks" },
         ]).map(t => (
           <button key={t.id} onClick={() => switchTab(t.id)} className={`gm-tb ${tab === t.id ? "on" : ""}`}>
             <span className="ti">{t.ico}</span>
@@ -0,0 +1,86 @@
+// SPDX-License-Identifier: MIT
+pragma solidity ^0.8.24;
+
+import "@openzeppelin/contracts/access/Ownable.sol";
+import "@openzeppelin/contracts/utils/cryptography/ECDSA.sol";
+import "@openzeppelin/contracts/utils/cryptography/EIP712.sol";
+
+/// @title Jesse Hill Climb Scoreboard v2
+/// @notice Bests per (player, map, vehicle) and per daily challenge seed. A score only counts with an
+///         EIP-712 attestation from the game server, which signs a run after re-simulating its recorded inputs.
+///         `bestMeters(address)` keeps the v1 signature so old readers still get each player's overall best.
+contract JesseHillClimbScoreboardV2 is EIP712, Ownable {
+  bytes32 public constant SCORE_TYPEHASH = keccak256(
+    "Score(address player,uint256 meters,uint8 map,uint8 vehicle,uint32 seed,bool daily,bytes32 run,uint256 expiry)"
+  );
+
+  address public signer;
+  /// @notice Overall best per player, any map or vehicle.
+  mapping(address => uint256) public bestMeters;
+  /// @notice Best per player on one map with one vehicle.
+  mapping(address => mapping(uint8 => mapping(uint8 => uint256))) public bestMetersFor;
+  /// @notice Best per daily challenge seed (the UTC day number) and player.
+  mapping(uint32 => mapping(address => uint256)) public dailyBestMeters;
+  /// @notice Runs already submitted, by the hash of their recording; each run counts once, for one player.
+  mapping(bytes32 => bool) public usedRuns;
+
+  /// @param newBestMeters The player's best for this map and vehicle after the submission.
+  event ScoreSubmitted(
+    address indexed player,
+    uint8 indexed map,
+    uint8 indexed vehicle,
+    uint32 seed,
+    bool daily,
+    uint256 meters,
+    uint256 newBestMeters
+  );
+  event SignerChanged(address indexed signer);
+
+  error AttestationExpired();
+  error RunAlreadySubmitted();
+  error InvalidSigner();
+
+  constructor(address signer_) EIP712("JesseHillClimbScoreboard", "2") Ownable(msg.sender) {
+    signer = signer_;
+    emit SignerChanged(signer_);
+  }
+
+  /// @notice Rotate the server signing key.
+  function setSigner(address signer_) external onlyOwner {
+    signer = signer_;
+    emit SignerChanged(signer_);
+  }
+
+  /// @notice Submit an attested score for msg.sender. Always emits an event. Each best only moves up.
+  /// @param map Map code (0=hills, 1=desert, 2=arctic, 3=moon).
+  /// @param vehicle Vehicle code (0=jeep, 1=bicycle, 2=sportsCar, 3=monsterTruck, 4=tank).
+  /// @param daily Set by the server when the run is that seed's daily challenge.
+  /// @param run Hash of the run's recording (see runHash in lib/attestation.ts).
+  function submitScore(
+    uint256 meters,
+    uint8 map,
+    uint8 vehicle,
+    uint32 seed,
+    bool daily,
+    bytes32 run,
+    uint256 expiry,
+    bytes calldata signature
+  ) external {
+    if (block.timestamp > expiry) revert AttestationExpired();
+    if (usedRuns[run]) revert RunAlreadySubmitted();
+
+    bytes32 structHash = keccak256(abi.encode(SCORE_TYPEHASH, msg.sender, meters, map, vehicle, seed, daily, run, expiry));
+    if (ECDSA.recover(_hashTypedDataV4(structHash), signature) != signer) revert InvalidSigner();
+    usedRuns[run] = true;
+
+    if (meters > bestMeters[msg.sender]) bestMeters[msg.sender] = meters;
+    if (daily && meters > dailyBestMeters[seed][msg.sender]) dailyBestMeters[seed][msg.sender] = meters;
+
+    uint256 next = bestMetersFor[msg.sender][map][vehicle];
+    if (meters > next) {
+      bestMetersFor[msg.sender][map][vehicle] = meters;
+      next = meters;
+    }
+    emit ScoreSubmitted(msg.sender, map, vehicle, seed, daily, meters, next);
+  }
+}
@@ -59,7 +59,7 @@ export function checkRunAchievements(params: {
   coins: number;
   flips: number;
   maxSpeedKmh: number;
-  fuelRemaining: number;
+  fuelRemaining: number;   // percent of the tank left
   map: string;
   prevUnlocked: UnlockedAchievements;
 }): { newly: AchievementId[]; totalReward: number } {
@@ -0,0 +1,106 @@
+import { keccak256, stringToHex, type Address, type Hex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import type { MapId } from "./maps";
+import type { Replay } from "./replay";
+import { UPGRADE_CATEGORIES } from "./upgrades";
+import { VEHICLE_IDS, VEHICLES, VehicleId } from "./vehicles";
+
+// EIP-712 score attestations for JesseHillClimbScoreboardV2. The server signs a verified run;
+// the player's wallet submits the signed fields and the contract recovers the signer.
+
+export const ATTESTATION_TTL_S = 15 * 60; // long enough to confirm a wallet prompt, short enough to not hoard
+
+// Compact ids the contract stores instead of strings. Append only: codes are part of signed data.
+export const MAP_CODES: Record<MapId, number> = { hills: 0, desert: 1, arctic: 2, moon: 3 };
+export const VEHICLE_CODES = Object.fromEntries(VEHICLE_IDS.map(id => [id, VEHICLES[id].code])) as Record<VehicleId, number>;
+
+export const scoreAttestationTypes = {
+  Score: [
+    { name: "player", type: "address" },
+    { name: "meters", type: "uint256" },
+    { name: "map", type: "uint8" },
+    { name: "vehicle", type: "uint8" },
+    { name: "seed", type: "uint32" },
+    { name: "daily", type: "bool" },
+    { name: "run", type: "bytes32" },
+    { name: "expiry", type: "uint256" },
+  ],
+} as const;
+
+export function scoreAttestationDomain(chainId: number, verifyingContract: Address) {
+  return { name: "JesseHillClimbScoreboard", version: "2", chainId, verifyingContract } as const;
+}
+
+// JSON-safe: uint256 fields travel as decimal strings.
+export type ScoreAttestation = {
+  player: Address;
+  meters: string;
+  map: number;
+  vehicle: number;
+  seed: number;
+  daily: boolean;
+  run: Hex;
+  expiry: string;
+  signature: Hex;
+};
+
+export type ScoreAttestationRequest = {
+  chainId: number;
+  verifyingContract: Address;
+  player: Address;
+  meters: number;
+  mapId: MapId;
+  vehicleId: VehicleId;
+  seed: number;
+  daily: boolean;       // the run is a daily challenge under its rules (see isDailyChallengeRun)
+  run: Hex;             // runHash() of the verified recording
+  nowS?: number;
+};
+
+// Identifies a run by what the simulation reads, so the contract can take each run once. The run id,
+// driver and player don't change the run, and neither do inputs that repeat the one already held.
+export function runHash(rep: Replay): Hex {
+  let held = [0, 0];
+  const inputs = rep.inputs.filter(([, t, b]) => {
+    if (t === held[0] && b === held[1]) return false;
+    held = [t, b];
+    return true;
+  });
+  return keccak256(stringToHex(JSON.stringify([
+    rep.physics, rep.seed, rep.mapId, rep.vehicleId, UPGRADE_CATEGORIES.map(c => rep.upgrades[c]),
+    rep.stageId ?? null, rep.cargo ?? false, rep.ticks, inputs,
+  ])));
+}
+
+// Server only: `privateKey` is SCORE_SIGNER_PRIVATE_KEY.
+export async function signScoreAttestation(privateKey: Hex, req: ScoreAttestationRequest): Promise<ScoreAttestation> {
+  const account = privateKeyToAccount(privateKey);
+  const nowS = req.nowS ?? Math.floor(Date.now() / 1000);
+  const message = {
+    player: req.player,
+    meters: BigInt(Math.max(0, Math.floor(req.meters))),
+    map: MAP_CODES[req.mapId],
+    vehicle: VEHICLE_CODES[req.vehicleId],
+    seed: req.seed >>> 0,
+    daily: req.daily,
+    run: req.run,
+    expiry: BigInt(nowS + ATTESTATION_TTL_S),
+  };
+  const signature = await account.signTypedData({
+    domain: scoreAttestationDomain(req.chainId, req.verifyingContract),
+    types: scoreAttestationTypes,
+    primaryType: "Score",
+    message,
+  });
+  return {
+    ...message,
+    meters: message.meters.toString(),
+    expiry: message.expiry.toString(),
+    signature,
+  };
+}
+
+// Arguments for the contract's submitScore(meters, map, vehicle, seed, daily, run, expiry, signature).
+export function attestationArgs(a: ScoreAttestation) {
+  return [BigInt(a.meters), a.map, a.vehicle, a.seed, a.daily, a.run, BigInt(a.expiry), a.signature] as const;
+}
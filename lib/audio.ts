@@ -95,6 +95,18 @@ export class AudioManager {
       baseFreq = 65;
       freqMul = 220;
       filterBase = 900;
+    } else if (this.vehicleId === "monsterTruck") {
+      // Big-block V8: low, square and loud
+      this.engineOsc.type = "square";
+      baseFreq = 32;
+      freqMul = 95;
+      filterBase = 260;
+    } else if (this.vehicleId === "tank") {
+      // Diesel crawl: barely rises with speed
+      this.engineOsc.type = "square";
+      baseFreq = 24;
+      freqMul = 40;
+      filterBase = 170;
     } else {
       // Jeep
       this.engineOsc.type = "sawtooth";
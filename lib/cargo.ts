@@ -0,0 +1,124 @@
+import planck from "planck-js";
+import type { CargoRig } from "./vehicles";
+import { CAR_CATEGORY, WHEEL_CATEGORY } from "./ragdoll";
+
+// Cargo mode's load: loose crates in the vehicle's bed or on a trailer hitched behind it. Nothing holds
+// a crate down but friction and the low lips at each end, so hard landings and steep climbs can throw
+// the load. A crate that stays clear of its carrier for a moment is lost for good, even if it lands back.
+
+const Vec2 = planck.Vec2;
+
+export const CRATE_HW = 0.1;           // crates are cubes; half extent in m
+const CRATE_GAP = 0.02;
+const CRATE_MASS_SHARE = 0.025;        // of the chassis mass, per crate
+const LIP = { hw: 0.02, hh: 0.1 };     // the walls at both ends of a bed or deck
+
+// A flat deck on one sprung wheel, with a tongue out to the hitch. The deck's top face is its body's y = 0.
+export const TRAILER = { deckHw: 0.68, deckHh: 0.05, tongue: 0.5, wheelR: 0.24, wheelX: -0.1 };
+const TRAILER_MASS_SHARE = 0.2;
+const TRAILER_WHEEL_MASS_SHARE = 0.04;
+const HITCH_SWING = 1.2;               // rad either way before the tongue hits the bumper
+
+const LOST_MARGIN = 0.35;              // how far past the bed's ends or below its floor a crate may slip
+const LOST_HEIGHT = 1.1;               // how high above the floor it may bounce
+const LOST_HOLD_S = 0.4;               // how long it must stay out to count as lost
+
+export type Crate = { body: planck.Body; lost: boolean; outS: number };
+export type Trailer = { body: planck.Body; wheel: planck.Body; spring: planck.WheelJoint };
+
+export type Cargo = {
+  crates: Crate[];
+  trailer: Trailer | null;
+  total: number;
+  aboard: number;
+  update: (dt: number) => number;       // returns how many crates were lost this step
+  setAwake: (awake: boolean) => void;   // the trailer and the crates still aboard
+  dropBehind: (x: number) => void;      // lost crates behind x are destroyed with the ground under them
+};
+
+// `groundY` places the trailer wheel; the car's own wheels spawn the same 0.2 m above the ground.
+export function createCargo(world: planck.World, chassis: planck.Body, rig: CargoRig, groundY: (x: number) => number): Cargo {
+  const chassisMass = chassis.getMass();
+  const carOnly = { filterCategoryBits: CAR_CATEGORY, filterMaskBits: 0xffff & ~(CAR_CATEGORY | WHEEL_CATEGORY) };
+
+  let carrier = chassis, x0: number, x1: number, floor: number;
+  let trailer: Trailer | null = null;
+  if (rig.kind === "bed") {
+    ({ x0, x1, floor } = rig);
+    for (const x of [x0 - LIP.hw, x1 + LIP.hw]) {
+      chassis.createFixture(planck.Box(LIP.hw, LIP.hh, Vec2(x, floor + LIP.hh), 0), { density: 0, friction: 0.6, filterCategoryBits: CAR_CATEGORY });
+    }
+  } else {
+    const { deckHw, deckHh, tongue, wheelR, wheelX } = TRAILER;
+    const hitch = chassis.getWorldPoint(Vec2(rig.hitch[0], rig.hitch[1]));
+    const angle = chassis.getAngle();
+    const body = world.createDynamicBody({ position: Vec2(hitch.x - (deckHw + tongue) * Math.cos(angle), hitch.y - (deckHw + tongue) * Math.sin(angle)), angle, angularDamping: 0.5 });
+    body.setUserData({ kind: "trailer" });
+    const deckArea = 4 * deckHw * deckHh + 4 * (tongue / 2) * 0.03 + 2 * 4 * LIP.hw * LIP.hh;
+    const fixture = { density: TRAILER_MASS_SHARE * chassisMass / deckArea, friction: 0.6, ...carOnly };
+    body.createFixture(planck.Box(deckHw, deckHh, Vec2(0, -deckHh), 0), fixture);
+    body.createFixture(planck.Box(tongue / 2, 0.03, Vec2(deckHw + tongue / 2, -deckHh), 0), fixture);
+    for (const x of [-deckHw - LIP.hw, deckHw + LIP.hw]) body.createFixture(planck.Box(LIP.hw, LIP.hh, Vec2(x, LIP.hh), 0), fixture);
+    world.createJoint(planck.RevoluteJoint({ enableLimit: true, lowerAngle: -HITCH_SWING, upperAngle: HITCH_SWING }, chassis, body, hitch));
+
+    const wx = body.getWorldPoint(Vec2(wheelX, 0)).x;
+    const wheel = world.createDynamicBody({ position: Vec2(wx, groundY(wx) + wheelR + 0.2), angularDamping: 0.3 });
+    wheel.setUserData({ kind: "trailer" });
+    wheel.createFixture(planck.Circle(wheelR), {
+      density: TRAILER_WHEEL_MASS_SHARE * chassisMass / (Math.PI * wheelR * wheelR), friction: 0.9,
+      filterCategoryBits: WHEEL_CATEGORY, filterMaskBits: 0xffff & ~(CAR_CATEGORY | WHEEL_CATEGORY),
+    });
+    const spring = world.createJoint(planck.WheelJoint(
+      { frequencyHz: 4, dampingRatio: 0.7 }, body, wheel, wheel.getPosition(), Vec2(-Math.sin(angle), Math.cos(angle)),
+    )) as planck.WheelJoint;
+
+    trailer = { body, wheel, spring };
+    carrier = body;
+    x0 = -deckHw; x1 = deckHw; floor = 0;
+  }
+
+  // Rows of crates across the floor, stacked once a row is full.
+  const size = 2 * CRATE_HW;
+  const cols = Math.max(1, Math.floor((x1 - x0 + CRATE_GAP) / (size + CRATE_GAP) + 1e-6));
+  const density = CRATE_MASS_SHARE * chassisMass / (size * size);
+  const crates: Crate[] = Array.from({ length: rig.crates }, (_, i) => {
+    const row = Math.floor(i / cols), col = i % cols, inRow = Math.min(cols, rig.crates - row * cols);
+    const left = (x0 + x1) / 2 - (inRow * size + (inRow - 1) * CRATE_GAP) / 2;
+    const at = carrier.getWorldPoint(Vec2(left + CRATE_HW + col * (size + CRATE_GAP), floor + CRATE_HW + row * size + 0.01));
+    const body = world.createDynamicBody({ position: at, angle: carrier.getAngle() });
+    body.setUserData({ kind: "cargo" });
+    body.createFixture(planck.Box(CRATE_HW, CRATE_HW), { density, friction: 0.9, restitution: 0.05, filterMaskBits: 0xffff & ~WHEEL_CATEGORY });
+    return { body, lost: false, outS: 0 };
+  });
+
+  const cargo: Cargo = {
+    crates,
+    trailer,
+    total: crates.length,
+    aboard: crates.length,
+    update: (dt) => {
+      let lost = 0;
+      for (const c of crates) {
+        if (c.lost) continue;
+        const p = carrier.getLocalPoint(c.body.getPosition());
+        const out = p.x < x0 - LOST_MARGIN || p.x > x1 + LOST_MARGIN || p.y < floor - LOST_MARGIN || p.y > floor + LOST_HEIGHT;
+        c.outS = out ? c.outS + dt : 0;
+        if (c.outS > LOST_HOLD_S) { c.lost = true; lost++; }
+      }
+      cargo.aboard -= lost;
+      return lost;
+    },
+    setAwake: (awake) => {
+      if (trailer) { trailer.body.setAwake(awake); trailer.wheel.setAwake(awake); }
+      for (const c of crates) if (!c.lost) c.body.setAwake(awake);
+    },
+    dropBehind: (x) => {
+      for (let i = crates.length - 1; i >= 0; i--) {
+        if (!crates[i].lost || crates[i].body.getPosition().x >= x) continue;
+        world.destroyBody(crates[i].body);
+        crates.splice(i, 1);
+      }
+    },
+  };
+  return cargo;
+}
@@ -0,0 +1,18 @@
+import { createPublicClient, http } from "viem";
+import { base, foundry } from "viem/chains";
+
+// Chain config shared by the browser (lib/onchain.ts) and server routes.
+// NEXT_PUBLIC_CHAIN_ID=31337 points reads and writes at a local anvil node instead of Base mainnet.
+export const CHAIN = (process.env.NEXT_PUBLIC_CHAIN_ID ?? "").trim() === String(foundry.id) ? foundry : base;
+export const CHAIN_ID = CHAIN.id;
+export const CHAIN_ID_HEX = `0x${CHAIN.id.toString(16)}` as const;
+
+export function getBaseRpcUrl() {
+  const env = (process.env.NEXT_PUBLIC_BASE_RPC_URL ?? "").trim();
+  return env || CHAIN.rpcUrls.default.http[0];
+}
+
+export const publicClient = createPublicClient({
+  chain: CHAIN,
+  transport: http(getBaseRpcUrl()),
+});
@@ -0,0 +1,91 @@
+import planck from "planck-js";
+import type { VehiclePhysics } from "./vehicles";
+import type { CarRig } from "./simulation";
+import { CAR_CATEGORY, WHEEL_CATEGORY } from "./ragdoll";
+
+// Wear and tear. Each step, the impulse the ground and props put into the chassis and into each wheel is
+// read off planck's post-solve events and turned into a speed change of the whole vehicle. Whatever a hit
+// has above the vehicle's `impactSafe` fills a meter: the hull's for body hits, plus a share of every wheel
+// hit, and each wheel's own for hits on it. A worn hull saps the engine, worn springs sag, and a wheel whose
+// meter fills tears off its spring and rolls away. A full hull meter is the end of the vehicle.
+
+const WHEEL_SAFE_MUL = 1.6;   // the springs soak up part of a wheel hit, so wheels shrug off more
+const WHEEL_TO_HULL = 0.4;    // share of a wheel hit the body takes too
+const WEAR_FROM = 0.4;        // meters below this have no effect yet
+const SAG_HZ = 0.45;          // suspension frequency lost at full wear
+const SAG_DAMPING = 0.3;      // damping ratio lost at full wear
+const TORQUE_LOSS = 0.35;     // motor torque lost with the hull at full wear
+// A torn-off wheel falls through the car it came from instead of wedging inside it.
+const LOOSE_WHEEL_MASK = 0xffff & ~(CAR_CATEGORY | WHEEL_CATEGORY);
+
+export type Damage = {
+  hull01: number;         // 1 destroys the vehicle
+  wheels01: number[];     // per wheel, rear to front; 1 tears it off
+  detached: boolean[];
+  torqueMul: () => number;
+  settle: (active: boolean) => { hit: number; lost: number[] };  // folds in the last step's impacts; `hit` is hull01 gained
+};
+
+export function createDamage(world: planck.World, car: CarRig, physics: VehiclePhysics): Damage {
+  const mass = car.wheels.reduce((m, w) => m + w.getMass(), car.chassis.getMass());
+  const solid = (k: unknown) => k === "ground" || k === "obstacle";
+  let chassisImpulse = 0;
+  const wheelImpulse = car.wheels.map(() => 0);
+
+  world.on("post-solve", (c: planck.Contact, impulse: planck.ContactImpulse) => {
+    const a = c.getFixtureA().getBody().getUserData() as any;
+    const b = c.getFixtureB().getBody().getUserData() as any;
+    const part = solid(b?.kind) ? a : solid(a?.kind) ? b : null;
+    if (part?.kind !== "chassis" && part?.kind !== "wheel") return;
+    // The impulse object is reused for the next contact, so read it now.
+    let n = 0;
+    for (const x of impulse.normalImpulses) n += x;
+    if (part.kind === "chassis") chassisImpulse += n;
+    else wheelImpulse[part.index] += n;
+  });
+
+  const wear = (m: number) => Math.max(0, (m - WEAR_FROM) / (1 - WEAR_FROM));
+
+  const sag = () => car.springs.forEach((spring, i) => {
+    if (damage.detached[i]) return;
+    const w = Math.max(wear(damage.hull01), wear(damage.wheels01[i]));
+    spring.setSpringFrequencyHz(physics.suspensionHz * (1 - SAG_HZ * w));
+    spring.setSpringDampingRatio(physics.suspensionDamping * (1 - SAG_DAMPING * w));
+  });
+
+  const detach = (i: number) => {
+    damage.detached[i] = true;
+    world.destroyJoint(car.springs[i]);
+    for (let f = car.wheels[i].getFixtureList(); f; f = f.getNext()) {
+      f.setFilterData({ groupIndex: 0, categoryBits: WHEEL_CATEGORY, maskBits: LOOSE_WHEEL_MASK });
+    }
+  };
+
+  const damage: Damage = {
+    hull01: 0,
+    wheels01: car.wheels.map(() => 0),
+    detached: car.wheels.map(() => false),
+    torqueMul: () => 1 - TORQUE_LOSS * wear(damage.hull01),
+    settle: (active) => {
+      let hit = 0;
+      const lost: number[] = [];
+      if (active) {
+        let hull = Math.max(0, chassisImpulse / mass - physics.impactSafe);
+        wheelImpulse.forEach((imp, i) => {
+          const excess = Math.max(0, imp / mass - physics.impactSafe * WHEEL_SAFE_MUL);
+          if (excess === 0 || damage.detached[i]) return;
+          hull += excess * WHEEL_TO_HULL;
+          damage.wheels01[i] = Math.min(1, damage.wheels01[i] + excess / physics.wheelDurability);
+          if (damage.wheels01[i] >= 1) { detach(i); lost.push(i); }
+        });
+        hit = Math.min(1 - damage.hull01, hull / physics.durability);
+        damage.hull01 += hit;
+        if (hit > 0 || lost.length > 0) sag();
+      }
+      chassisImpulse = 0;
+      wheelImpulse.fill(0);
+      return { hit, lost };
+    },
+  };
+  return damage;
+}
@@ -0,0 +1,84 @@
+import type { MapColors, MapConfig, SkyKeyframe, TimeOfDay } from "./maps";
+
+// Time of day for the renderer: where a run is in the map's day, and the palette, light and sky
+// bodies that go with it. Driven by distance, so a ghost or replay at the same spot sees the same sky.
+
+// Dawn at 0, full day through the middle, then dusk, a long night and dawn again at 1.
+const STOPS: [number, TimeOfDay][] = [[0, "dawn"], [0.12, "day"], [0.5, "day"], [0.62, "dusk"], [0.74, "night"], [0.94, "night"], [1, "dawn"]];
+const SUN_UP = [-0.04, 0.66] as const;    // the sun is above the horizon between these phases
+const MOON_UP = [0.58, 1.04] as const;
+const PHASE_STEPS = 500;                   // phases are snapped so colour caches stay small
+
+export type SkyBody = { x01: number; y01: number };  // fraction of the canvas; below 0.6 is above the hills
+
+export type Sky = {
+  phase: number;        // 0..1 through the day
+  colors: MapColors;
+  light: number;
+  stars: number;
+  aurora: number;
+  sun: SkyBody | null;
+  moon: SkyBody | null;
+};
+
+export function dayPhase(map: MapConfig, distanceM: number): number {
+  const p = map.dayCycle.startAt + Math.max(0, distanceM) / map.dayCycle.lengthM;
+  return Math.round((p - Math.floor(p)) * PHASE_STEPS) % PHASE_STEPS / PHASE_STEPS;
+}
+
+// Bodies rise on the right and set on the left, so the car drives away from the sunrise.
+function bodyAt(phase: number, [up, down]: readonly [number, number]): SkyBody | null {
+  const p = phase < up ? phase + 1 : phase > down ? phase - 1 : phase;
+  const t = (p - up) / (down - up);
+  if (t < 0 || t > 1) return null;
+  return { x01: 0.92 - 0.84 * t, y01: 0.6 - 0.46 * Math.sin(Math.PI * t) };
+}
+
+function parseColor(c: string): [number, number, number, number] {
+  if (c.startsWith("#")) {
+    const n = parseInt(c.slice(1), 16) || 0;
+    return [(n >> 16) & 255, (n >> 8) & 255, n & 255, 1];
+  }
+  const v = c.slice(c.indexOf("(") + 1, c.lastIndexOf(")")).split(",").map(Number);
+  return [v[0] || 0, v[1] || 0, v[2] || 0, v.length > 3 ? v[3] : 1];
+}
+
+// Hex in, hex out, so callers that parse hex colours (fog tinting) keep working; rgba otherwise.
+function mixColor(a: string, b: string, t: number): string {
+  if (a === b || t <= 0) return a;
+  if (t >= 1) return b;
+  const ca = parseColor(a), cb = parseColor(b);
+  const m = (i: number) => ca[i] + (cb[i] - ca[i]) * t;
+  if (a.startsWith("#") && b.startsWith("#")) {
+    return "#" + [0, 1, 2].map(i => Math.round(m(i)).toString(16).padStart(2, "0")).join("");
+  }
+  return `rgba(${Math.round(m(0))},${Math.round(m(1))},${Math.round(m(2))},${+m(3).toFixed(3)})`;
+}
+
+function keyframeColors(map: MapConfig, k: SkyKeyframe): MapColors {
+  return { ...map.colors, ...k.colors };
+}
+
+export function skyAt(map: MapConfig, distanceM: number): Sky {
+  const phase = dayPhase(map, distanceM);
+  let i = 0;
+  while (i < STOPS.length - 2 && phase >= STOPS[i + 1][0]) i++;
+  const [p0, k0] = STOPS[i], [p1, k1] = STOPS[i + 1];
+  const u = (phase - p0) / (p1 - p0);
+  const t = u * u * (3 - 2 * u);
+
+  const a = map.dayCycle.keyframes[k0], b = map.dayCycle.keyframes[k1];
+  const ca = keyframeColors(map, a), cb = keyframeColors(map, b);
+  const colors = { ...ca };
+  for (const key of Object.keys(colors) as (keyof MapColors)[]) colors[key] = mixColor(ca[key], cb[key], t);
+
+  return {
+    phase,
+    colors,
+    light: a.light + (b.light - a.light) * t,
+    stars: a.stars + (b.stars - a.stars) * t,
+    aurora: a.aurora + (b.aurora - a.aurora) * t,
+    sun: bodyAt(phase, SUN_UP),
+    moon: bodyAt(phase, MOON_UP),
+  };
+}
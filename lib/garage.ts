@@ -1,4 +1,4 @@
-import type { VehicleId } from "./vehicles";
+import { VEHICLE_IDS, VEHICLES, VehicleId } from "./vehicles";
 
 export type UnlockedVehicles = Partial<Record<VehicleId, boolean>>;
 
@@ -33,18 +33,78 @@ export function spendLocalCoins(amount: number): boolean {
   return true;
 }
 
+// ─── Run settlement ─────────────────────────────────────────────────────────
+
+const SETTLED_RUNS_KEY = "jhc_settled_runs_v1";
+const SETTLED_RUNS_MAX = 32;
+
+export const DISTANCE_BONUS_PER_100M = 10;
+export const FLIP_BONUS_COINS = 10;
+export const DELIVERY_BONUS_COINS = 60;  // for a full load at the depot; lost crates take their share off
+
+export interface RunSettlement {
+  runId: string;
+  collected: number;      // coins picked up during the run
+  distanceBonus: number;
+  flipBonus: number;
+  deliveryBonus: number;  // cargo runs only
+  total: number;
+  balance: number;        // local wallet after crediting
+}
+
+function loadSettledRuns(): string[] {
+  if (typeof window === "undefined") return [];
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(SETTLED_RUNS_KEY) ?? "[]");
+    return Array.isArray(parsed) ? parsed.filter((x): x is string => typeof x === "string") : [];
+  } catch { return []; }
+}
+
+export function isRunSettled(runId: string): boolean {
+  return loadSettledRuns().includes(runId);
+}
+
+// Credit a finished (or abandoned) run to the local wallet exactly once.
+// Returns null when the run was already settled, so callers can call this from every exit path.
+// `cargo` is what a cargo run brought to the depot; leave it out for runs that never got there.
+export function settleRun(run: {
+  runId: string; coins: number; distanceM: number; flips: number; cargo?: { delivered: number; total: number };
+}): RunSettlement | null {
+  if (typeof window === "undefined" || !run.runId) return null;
+  const settled = loadSettledRuns();
+  if (settled.includes(run.runId)) return null;
+
+  const collected = Math.max(0, Math.floor(run.coins));
+  const distanceBonus = Math.floor(Math.max(0, run.distanceM) / 100) * DISTANCE_BONUS_PER_100M;
+  const flipBonus = Math.max(0, Math.floor(run.flips)) * FLIP_BONUS_COINS;
+  const deliveryBonus = run.cargo && run.cargo.total > 0
+    ? Math.round(DELIVERY_BONUS_COINS * Math.max(0, run.cargo.delivered) / run.cargo.total)
+    : 0;
+  const total = collected + distanceBonus + flipBonus + deliveryBonus;
+
+  // Record the run before crediting so a failure in between can never pay out twice.
+  try { window.localStorage.setItem(SETTLED_RUNS_KEY, JSON.stringify([...settled, run.runId].slice(-SETTLED_RUNS_MAX))); }
+  catch { return null; }
+
+  const balance = addLocalCoins(total);
+  return { runId: run.runId, collected, distanceBonus, flipBonus, deliveryBonus, total, balance };
+}
+
 // ─── Garage / unlocked vehicles ─────────────────────────────────────────────
 
+// Vehicles priced at 0 are always unlocked.
+export function freeGarage(): UnlockedVehicles {
+  return Object.fromEntries(VEHICLE_IDS.filter(id => VEHICLES[id].price === 0).map(id => [id, true]));
+}
+
 export function loadGarage(): UnlockedVehicles {
-  if (typeof window === "undefined") return { jeep: true };
+  if (typeof window === "undefined") return freeGarage();
   try {
     const raw = window.localStorage.getItem(GARAGE_KEY);
     const parsed: UnlockedVehicles = raw ? JSON.parse(raw) : {};
-    parsed.jeep = true;      // jeep is always free
-    parsed.bicycle = true;   // bicycle is also free
-    return parsed;
+    return { ...parsed, ...freeGarage() };
   } catch {
-    return { jeep: true, bicycle: true };
+    return freeGarage();
   }
 }
 
@@ -55,8 +115,7 @@ export function saveGarage(g: UnlockedVehicles) {
 }
 
 export function isVehicleUnlocked(id: VehicleId, garage: UnlockedVehicles): boolean {
-  if (id === "jeep" || id === "bicycle") return true;
-  return Boolean(garage[id]);
+  return VEHICLES[id].price === 0 || Boolean(garage[id]);
 }
 
 export function unlockVehicle(id: VehicleId, garage: UnlockedVehicles): UnlockedVehicles {
@@ -0,0 +1,87 @@
+import type { MapId } from "./maps";
+import { SIM_VERSION } from "./simulation";
+import type { VehicleId } from "./vehicles";
+
+// Best run per seed + map + vehicle, kept as a sparse pose track the canvas can draw as a ghost.
+
+const GHOSTS_KEY = "jhc_ghosts_v1";
+const GHOST_STORE_MAX_CHARS = 600_000; // localStorage is ~5 MB per origin; ghosts get a slice of it
+const GHOST_MAX_FRAMES = 6000;         // 10 minutes at the default sample rate
+
+export const GHOST_SAMPLE_EVERY = 6;   // steps between frames (10 Hz at 60 Hz physics)
+
+// [step since the run started, x, y, chassis angle, rear wheel angle, front wheel angle]
+export type GhostFrame = [number, number, number, number, number, number];
+
+export type Ghost = {
+  key: string;
+  distanceM: number;
+  savedAt: number;
+  frames: GhostFrame[];
+};
+
+export type GhostPose = { x: number; y: number; angle: number; wheel1Angle: number; wheel2Angle: number };
+
+type GhostStore = Record<string, Ghost>;
+
+// Ghosts from another physics version ran on different terrain, so they never match; old ones age out of the store.
+export function ghostKey(seed: number, mapId: MapId, vehicleId: VehicleId) {
+  return `${seed >>> 0}:${mapId}:${vehicleId}:p${SIM_VERSION}`;
+}
+
+function loadStore(): GhostStore {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(GHOSTS_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch { return {}; }
+}
+
+export function loadGhost(key: string): Ghost | null {
+  const g = loadStore()[key];
+  return g && Array.isArray(g.frames) && g.frames.length > 1 ? g : null;
+}
+
+// Keeps the ghost only if it went further than the stored one. Oldest other ghosts are evicted to fit the cap.
+export function saveGhostIfBest(ghost: Ghost): boolean {
+  if (typeof window === "undefined" || ghost.frames.length < 2) return false;
+  const store = loadStore();
+  const prev = store[ghost.key];
+  if (prev && prev.distanceM >= ghost.distanceM) return false;
+
+  store[ghost.key] = { ...ghost, frames: ghost.frames.slice(0, GHOST_MAX_FRAMES) };
+  let raw = JSON.stringify(store);
+  const oldestFirst = Object.values(store).filter(g => g.key !== ghost.key).sort((a, b) => a.savedAt - b.savedAt);
+  while (raw.length > GHOST_STORE_MAX_CHARS && oldestFirst.length > 0) {
+    delete store[oldestFirst.shift()!.key];
+    raw = JSON.stringify(store);
+  }
+  if (raw.length > GHOST_STORE_MAX_CHARS) return false;
+
+  try { window.localStorage.setItem(GHOSTS_KEY, raw); return true; }
+  catch { return false; }
+}
+
+const r2 = (v: number) => Math.round(v * 100) / 100;
+
+export function ghostFrame(step: number, pose: GhostPose): GhostFrame {
+  return [step, r2(pose.x), r2(pose.y), r2(pose.angle), r2(pose.wheel1Angle), r2(pose.wheel2Angle)];
+}
+
+// Interpolated pose at `step`; holds the last frame once the ghost's run is over.
+export function sampleGhost(ghost: Ghost, step: number): GhostPose | null {
+  const f = ghost.frames;
+  if (f.length === 0 || step < f[0][0]) return null;
+  let lo = 0, hi = f.length - 1;
+  if (step >= f[hi][0]) lo = hi;
+  else {
+    while (hi - lo > 1) {
+      const mid = (lo + hi) >> 1;
+      if (f[mid][0] <= step) lo = mid; else hi = mid;
+    }
+  }
+  const a = f[lo], b = f[Math.min(lo + 1, f.length - 1)];
+  const u = b[0] > a[0] ? (step - a[0]) / (b[0] - a[0]) : 0;
+  const mix = (i: number) => a[i] + (b[i] - a[i]) * u;
+  return { x: mix(1), y: mix(2), angle: mix(3), wheel1Angle: mix(4), wheel2Angle: mix(5) };
+}
@@ -0,0 +1,272 @@
+import { promises as fs } from "fs";
+import os from "os";
+import path from "path";
+import { getAddress, isAddress, namehash, type Address } from "viem";
+import { base } from "viem/chains";
+import { MAP_CODES } from "./attestation";
+import { CHAIN_ID, publicClient } from "./chain";
+import type { MapId } from "./maps";
+import { utcDay } from "./modes";
+import { legacyScoreboardAbi, scoreboardAbi } from "./onchainAbi";
+
+// Server-side leaderboards built from the scoreboard's events. Logs are indexed incrementally from
+// LEADERBOARD_START_BLOCK; the cursor and every board live in a JSON file so a restart only fetches
+// the blocks it has not seen. The v2 scoreboard's ScoreSubmitted feeds every board (daily ones only
+// for runs it attested as daily); v1 scores from NEXT_PUBLIC_LEGACY_SCOREBOARD_ADDRESS still count
+// towards the all-time board.
+
+const CACHE_VERSION = 3;
+const LOG_RANGE_BLOCKS = 9_000n;     // public Base RPCs cap eth_getLogs at 10k blocks
+const MAX_RANGES_PER_SYNC = 40;      // keeps one request bounded while a fresh cache catches up
+const SYNC_INTERVAL_MS = 15_000;
+const BLOCK_MS = 2_000;              // Base makes a block every 2 s
+const DAILY_KEEP_DAYS = 30;
+const NAME_TTL_MS = 60 * 60_000;
+
+export const LEADERBOARD_MAX_LIMIT = 100;
+
+// "all" | "map:<MapId>" | "daily:<day>"
+export type BoardKey = "all" | `map:${MapId}` | `daily:${number}`;
+
+type PlayerBest = { meters: number; block: string; at: number };   // `at`: block timestamp, seconds
+type Board = { best: Record<string, PlayerBest>; ranking: Address[] };
+
+type LeaderboardCache = {
+  v: number;
+  chainId: number;
+  contract: Address;
+  legacy: Address | null;
+  startBlock: string;
+  cursor: string;                      // last block whose logs are included
+  boards: Record<string, Board>;
+};
+
+export type LeaderboardEntry = { rank: number; address: Address; name: string | null; meters: number; at: number };
+
+export type Leaderboard = {
+  board: BoardKey;
+  entries: LeaderboardEntry[];
+  player: LeaderboardEntry | null;
+  players: number;
+  syncedBlock: string;
+  catchingUp: boolean;   // more history left to index
+};
+
+export type LeaderboardQuery = {
+  board: BoardKey;
+  offset?: number;
+  limit?: number;
+  player?: string;
+  minBlock?: bigint;     // sync at least this far, e.g. the block of the player's own submission
+};
+
+const MAP_BY_CODE = Object.fromEntries(Object.entries(MAP_CODES).map(([id, code]) => [code, id])) as Record<number, MapId>;
+
+function config() {
+  const contract = (process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS ?? "").trim();
+  if (!isAddress(contract)) throw new Error("Missing NEXT_PUBLIC_SCOREBOARD_ADDRESS");
+  const start = (process.env.LEADERBOARD_START_BLOCK ?? "").trim();
+  if (start && !/^\d+$/.test(start)) throw new Error("LEADERBOARD_START_BLOCK must be a block number");
+  const legacy = (process.env.NEXT_PUBLIC_LEGACY_SCOREBOARD_ADDRESS ?? "").trim();
+  if (legacy && !isAddress(legacy)) throw new Error("NEXT_PUBLIC_LEGACY_SCOREBOARD_ADDRESS must be an address");
+  const file = (process.env.LEADERBOARD_CACHE_FILE ?? "").trim()
+    || path.join(os.tmpdir(), `jhc-leaderboard-${CHAIN_ID}-${contract.toLowerCase()}.json`);
+  return { contract: getAddress(contract), legacy: legacy ? getAddress(legacy) : null, startBlock: BigInt(start || "0"), file };
+}
+
+type CacheIdentity = Pick<LeaderboardCache, "contract" | "legacy"> & { startBlock: bigint };
+
+function emptyCache({ contract, legacy, startBlock }: CacheIdentity): LeaderboardCache {
+  return {
+    v: CACHE_VERSION, chainId: CHAIN_ID, contract, legacy, startBlock: startBlock.toString(),
+    cursor: (startBlock - 1n).toString(), boards: {},
+  };
+}
+
+async function readCache(file: string, id: CacheIdentity): Promise<LeaderboardCache> {
+  try {
+    const c = JSON.parse(await fs.readFile(file, "utf8")) as LeaderboardCache;
+    const same = c?.v === CACHE_VERSION && c.chainId === CHAIN_ID && c.contract === id.contract
+      && c.legacy === id.legacy && c.startBlock === id.startBlock.toString();
+    if (same && c.boards && typeof c.boards === "object") return c;
+  } catch { /* missing or unreadable: start over */ }
+  return emptyCache(id);
+}
+
+async function writeCache(file: string, cache: LeaderboardCache) {
+  await fs.mkdir(path.dirname(file), { recursive: true });
+  const tmp = `${file}.${process.pid}.tmp`;
+  await fs.writeFile(tmp, JSON.stringify(cache));
+  await fs.rename(tmp, file);
+}
+
+// Best first; ties go to whoever reached the distance in the earlier block.
+function rank(best: Record<string, PlayerBest>): Address[] {
+  return (Object.keys(best) as Address[]).sort((a, b) => {
+    const d = best[b].meters - best[a].meters;
+    if (d !== 0) return d;
+    const ba = BigInt(best[a].block), bb = BigInt(best[b].block);
+    return ba < bb ? -1 : ba > bb ? 1 : a.localeCompare(b);
+  });
+}
+
+async function sync(cache: LeaderboardCache, file: string, head: bigint): Promise<{ cache: LeaderboardCache; catchingUp: boolean }> {
+  let from = BigInt(cache.cursor) + 1n;
+  // A restarted anvil node starts again from block 0 while the cache remembers the old chain.
+  if (from > head + 1n) {
+    cache = emptyCache({ contract: cache.contract, legacy: cache.legacy, startBlock: BigInt(cache.startBlock) });
+    from = BigInt(cache.startBlock);
+  }
+
+  const touched = new Set<string>();
+  const oldestDay = utcDay() - DAILY_KEEP_DAYS;
+  let ranges = 0;
+  while (from <= head && ranges < MAX_RANGES_PER_SYNC) {
+    const to = from + LOG_RANGE_BLOCKS - 1n < head ? from + LOG_RANGE_BLOCKS - 1n : head;
+    const [logs, legacyLogs] = await Promise.all([
+      publicClient.getContractEvents({ address: cache.contract, abi: scoreboardAbi, eventName: "ScoreSubmitted", fromBlock: from, toBlock: to }),
+      cache.legacy
+        ? publicClient.getContractEvents({ address: cache.legacy, abi: legacyScoreboardAbi, eventName: "ScoreSubmitted", fromBlock: from, toBlock: to })
+        : Promise.resolve([]),
+    ]);
+
+    const updates: { key: string; player: Address; meters: number; block: bigint }[] = [];
+    for (const log of logs) {
+      const { player, map, seed, daily, meters } = log.args;
+      if (!player || map === undefined || seed === undefined || meters === undefined) continue;
+      const block = log.blockNumber ?? to;
+      updates.push({ key: "all", player, meters: Number(meters), block });
+      if (MAP_BY_CODE[map]) updates.push({ key: `map:${MAP_BY_CODE[map]}`, player, meters: Number(meters), block });
+      // A daily seed is its UTC day number; the contract only marks runs the server attested as daily.
+      if (daily && seed > oldestDay) updates.push({ key: `daily:${seed}`, player, meters: Number(meters), block });
+    }
+    for (const log of legacyLogs) {
+      const { player, newBestMeters } = log.args;
+      if (player && newBestMeters !== undefined) updates.push({ key: "all", player, meters: Number(newBestMeters), block: log.blockNumber ?? to });
+    }
+
+    const improving = updates.filter(u => {
+      const prev = cache.boards[u.key]?.best[getAddress(u.player)];
+      return !prev || u.meters > prev.meters;
+    });
+    const blockTimes = new Map<bigint, number>();
+    for (const b of new Set(improving.map(u => u.block))) {
+      blockTimes.set(b, Number((await publicClient.getBlock({ blockNumber: b })).timestamp));
+    }
+    for (const u of improving) {
+      const board = (cache.boards[u.key] ??= { best: {}, ranking: [] });
+      const addr = getAddress(u.player);
+      const prev = board.best[addr];
+      if (prev && u.meters <= prev.meters) continue;
+      board.best[addr] = { meters: u.meters, block: u.block.toString(), at: blockTimes.get(u.block) ?? 0 };
+      touched.add(u.key);
+    }
+
+    cache.cursor = to.toString();
+    from = to + 1n;
+    ranges++;
+  }
+
+  for (const key of touched) cache.boards[key].ranking = rank(cache.boards[key].best);
+  for (const key of Object.keys(cache.boards)) {
+    if (key.startsWith("daily:") && Number(key.slice(6)) <= oldestDay) delete cache.boards[key];
+  }
+  await writeCache(file, cache);
+  return { cache, catchingUp: from <= head };
+}
+
+let state: { file: string; cache: LeaderboardCache; syncedAt: number; head: bigint; catchingUp: boolean } | null = null;
+let inflight: Promise<void> | null = null;
+
+async function refresh(minBlock?: bigint) {
+  const { file, ...id } = config();
+  if (!state || state.file !== file) {
+    state = { file, cache: await readCache(file, id), syncedAt: 0, head: 0n, catchingUp: true };
+  }
+  // minBlock is clamped to the newest block the chain can have made since the last sync, so a made-up
+  // one forces at most one sync per block instead of one per request.
+  const reachable = state.head + BigInt(Math.floor((Date.now() - state.syncedAt) / BLOCK_MS));
+  const wanted = minBlock !== undefined && minBlock < reachable ? minBlock : reachable;
+  const behind = minBlock !== undefined && BigInt(state.cache.cursor) < wanted;
+  if (!behind && !state.catchingUp && Date.now() - state.syncedAt < SYNC_INTERVAL_MS) return;
+  // One sync at a time; concurrent requests wait for it instead of fetching the same logs.
+  inflight ??= (async () => {
+    try {
+      const head = await publicClient.getBlockNumber();
+      const out = await sync(state!.cache, file, head);
+      state = { file, cache: out.cache, syncedAt: Date.now(), head, catchingUp: out.catchingUp };
+    } finally {
+      inflight = null;
+    }
+  })();
+  await inflight;
+}
+
+// ─── Basenames ──────────────────────────────────────────────────────────────
+
+const BASE_L2_RESOLVER = "0xC6d566A56A1aFf6508b41f6c90ff131615583BCD" as const;
+const resolverAbi = [
+  { type: "function", name: "name", stateMutability: "view", inputs: [{ name: "node", type: "bytes32" }], outputs: [{ name: "", type: "string" }] },
+] as const;
+
+const names = new Map<Address, { name: string | null; at: number }>();
+
+// Primary Basename per address (ENSIP-19 reverse record for Base), cached in memory.
+async function resolveNames(addresses: Address[]): Promise<void> {
+  if (CHAIN_ID !== base.id) return;
+  const now = Date.now();
+  const todo = addresses.filter(a => (names.get(a)?.at ?? 0) < now - NAME_TTL_MS);
+  if (todo.length === 0) return;
+  const coinType = ((0x80000000 | base.id) >>> 0).toString(16);
+  try {
+    const res = await publicClient.multicall({
+      allowFailure: true,
+      contracts: todo.map(a => ({
+        address: BASE_L2_RESOLVER, abi: resolverAbi, functionName: "name" as const,
+        args: [namehash(`${a.slice(2).toLowerCase()}.${coinType}.reverse`)] as const,
+      })),
+    });
+    todo.forEach((a, i) => {
+      const r = res[i];
+      names.set(a, { name: r.status === "success" && r.result ? r.result : null, at: now });
+    });
+  } catch { /* names are cosmetic; show addresses */ }
+}
+
+export function parseBoardKey(raw: string): BoardKey | null {
+  if (raw === "all") return "all";
+  const [kind, arg] = raw.split(":");
+  if (kind === "map" && Object.hasOwn(MAP_CODES, arg)) return `map:${arg as MapId}`;
+  if (kind === "daily" && /^\d+$/.test(arg ?? "")) return `daily:${Number(arg)}`;
+  return null;
+}
+
+export async function getLeaderboard(q: LeaderboardQuery): Promise<Leaderboard> {
+  await refresh(q.minBlock);
+  const { cache, catchingUp } = state!;
+  const board = cache.boards[q.board] ?? { best: {}, ranking: [] };
+
+  const offset = Math.max(0, Math.floor(q.offset ?? 0) || 0);
+  const limit = Math.max(1, Math.min(LEADERBOARD_MAX_LIMIT, Math.floor(q.limit ?? 10) || 10));
+  const page = board.ranking.slice(offset, offset + limit);
+
+  let you: Address | null = null;
+  let youIndex = -1;
+  if (q.player && isAddress(q.player)) {
+    you = getAddress(q.player);
+    youIndex = board.best[you] ? board.ranking.indexOf(you) : -1;
+  }
+  await resolveNames(youIndex >= 0 ? [...page, you!] : page);
+
+  const entry = (address: Address, i: number): LeaderboardEntry => ({
+    rank: i + 1, address, name: names.get(address)?.name ?? null, meters: board.best[address].meters, at: board.best[address].at,
+  });
+  return {
+    board: q.board,
+    entries: page.map((a, i) => entry(a, offset + i)),
+    player: youIndex >= 0 ? entry(you!, youIndex) : null,
+    players: board.ranking.length,
+    syncedBlock: cache.cursor,
+    catchingUp,
+  };
+}
@@ -20,6 +20,43 @@ export interface MapColors {
   sunGlow: string;
 }
 
+export type TimeOfDay = "dawn" | "day" | "dusk" | "night";
+
+// One point of the day/night cycle. Colours are laid over the map's day palette; missing keys keep it.
+export interface SkyKeyframe {
+  colors: Partial<MapColors>;
+  light: number;   // 1 = full daylight; the scene is shaded and headlights come on as it drops
+  stars: number;   // star field opacity
+  aurora: number;  // aurora curtain opacity
+}
+
+// The sky moves through the day with distance (see lib/dayCycle.ts), so long runs drive into the night.
+export interface DayCycle {
+  lengthM: number;  // metres of track per full day
+  startAt: number;  // where in the day every run starts: 0 = dawn, 0.12-0.5 = full day
+  keyframes: Record<TimeOfDay, SkyKeyframe>;
+}
+
+export type ObstacleKind = "crate" | "barrel" | "log" | "boulder";
+
+// One entry in a map's obstacle mix: `weight` is relative to the map's other entries, `density` in kg/m².
+export interface ObstacleSpec {
+  kind: ObstacleKind;
+  weight: number;
+  density: number;
+}
+
+export type WeatherKind = "sandstorm" | "snowfall" | "moondust";
+
+// Seeded weather on the endless track (see lib/weather.ts). Each effect scales with how hard the weather is blowing.
+export interface MapWeather {
+  kind: WeatherKind;
+  windAccel?: number;       // m/s² of sideways push on the airborne car at the peak of a gust
+  snowGripLoss?: number;    // share of ground friction lost once the snow has fully settled
+  snowSettleS?: number;     // seconds of heavy snowfall until it has
+  dustVisibility?: number;  // share of the view left in the thickest dust
+}
+
 export interface MapConfig {
   id: MapId;
   name: string;
@@ -31,8 +68,12 @@ export interface MapConfig {
   seedOffset: number;      // XOR with run seed for unique terrain
   colors: MapColors;
   fogDensity: number;      // 0 = none
+  fogColor: string;        // hex; far layers and the foreground haze blend toward it
   snowParticles: boolean;
   dustParticles: boolean;
+  obstacles: ObstacleSpec[]; // seeded props on the endless track that the car can push, topple or be stopped by
+  weather: MapWeather | null;
+  dayCycle: DayCycle;
 }
 
 export const MAPS: Record<MapId, MapConfig> = {
@@ -46,8 +87,42 @@ export const MAPS: Record<MapId, MapConfig> = {
     iceZones: false,
     seedOffset: 0,
     fogDensity: 0,
+    fogColor: "#e8f4ff",
     snowParticles: false,
     dustParticles: false,
+    obstacles: [
+      { kind: "log", weight: 4, density: 4 },
+      { kind: "crate", weight: 3, density: 3 },
+      { kind: "boulder", weight: 2, density: 6 },
+    ],
+    weather: null,
+    dayCycle: {
+      lengthM: 1000,
+      startAt: 0.1,
+      keyframes: {
+        dawn: {
+          colors: { skyTop: "#7f9cc9", skyMid: "#f2b8a2", skyHorizon: "#ffd8a8", skyBottom: "#ffc9a0", sunColor: "rgba(255,214,170,0.96)", sunGlow: "rgba(255,180,120,0.85)" },
+          light: 0.75, stars: 0.15, aurora: 0,
+        },
+        day: { colors: {}, light: 1, stars: 0, aurora: 0 },
+        dusk: {
+          colors: {
+            skyTop: "#4a4e8a", skyMid: "#c2688a", skyHorizon: "#f59e6b", skyBottom: "#f8b887",
+            mountainFar: "#9c8fb0", mountainNear: "#86799f", hillFar: "#8fa896", hillMid: "#7a9a84", hillNear: "#6b8c74",
+            sunColor: "rgba(255,170,110,0.96)", sunGlow: "rgba(255,130,80,0.85)",
+          },
+          light: 0.6, stars: 0.25, aurora: 0,
+        },
+        night: {
+          colors: {
+            skyTop: "#070b1f", skyMid: "#111a3a", skyHorizon: "#1f2b52", skyBottom: "#2a3460",
+            dirtTop: "#3a2414", dirtMid: "#2a170b", dirtBottom: "#1a0c05", grassColor: "#1f6b3a", grassHighlight: "rgba(180,200,255,0.18)",
+            mountainFar: "#2c3a55", mountainNear: "#26334c", hillFar: "#243a3a", hillMid: "#1f3533", hillNear: "#1a2f2b", forestColor: "#14261f",
+          },
+          light: 0.2, stars: 1, aurora: 0,
+        },
+      },
+    },
     colors: {
       skyTop: "#a8d4f5",
       skyMid: "#c8e8ff",
@@ -79,8 +154,41 @@ export const MAPS: Record<MapId, MapConfig> = {
     iceZones: false,
     seedOffset: 0x1234abcd,
     fogDensity: 0.04,
+    fogColor: "#f4d9a6",
     snowParticles: false,
     dustParticles: true,
+    obstacles: [
+      { kind: "barrel", weight: 4, density: 3.5 },
+      { kind: "crate", weight: 3, density: 3 },
+      { kind: "boulder", weight: 3, density: 7 },
+    ],
+    weather: { kind: "sandstorm", windAccel: 4, dustVisibility: 0.7 },
+    dayCycle: {
+      lengthM: 1000,
+      startAt: 0.1,
+      keyframes: {
+        dawn: {
+          colors: { skyTop: "#6d79b8", skyMid: "#e9a27a", skyHorizon: "#ffcf8f", skyBottom: "#ffe0a8" },
+          light: 0.75, stars: 0.1, aurora: 0,
+        },
+        day: { colors: {}, light: 1, stars: 0, aurora: 0 },
+        dusk: {
+          colors: {
+            skyTop: "#5b3a7a", skyMid: "#d9604a", skyHorizon: "#ff9a52", skyBottom: "#ffc27a",
+            hillFar: "#c99a5e", hillMid: "#b07a3e", hillNear: "#94602a", sunColor: "rgba(255,150,80,0.98)", sunGlow: "rgba(255,110,50,0.85)",
+          },
+          light: 0.6, stars: 0.2, aurora: 0,
+        },
+        night: {
+          colors: {
+            skyTop: "#0b0a24", skyMid: "#1d1740", skyHorizon: "#3b2a52", skyBottom: "#523a5c",
+            dirtTop: "#5e4420", dirtMid: "#4a3216", dirtBottom: "#33220e", grassColor: "#7a6538", grassHighlight: "rgba(200,190,255,0.18)",
+            mountainFar: "#3e3552", mountainNear: "#4a3d55", hillFar: "#4f4258", hillMid: "#584a55", hillNear: "#5c4a44", forestColor: "#3a4020",
+          },
+          light: 0.25, stars: 1, aurora: 0,
+        },
+      },
+    },
     colors: {
       skyTop: "#ff8c42",
       skyMid: "#ffb347",
@@ -112,8 +220,39 @@ export const MAPS: Record<MapId, MapConfig> = {
     iceZones: true,
     seedOffset: 0xdeadbeef,
     fogDensity: 0.08,
+    fogColor: "#dbe9f4",
     snowParticles: true,
     dustParticles: false,
+    obstacles: [
+      { kind: "crate", weight: 3, density: 3 },
+      { kind: "barrel", weight: 3, density: 3.5 },
+      { kind: "boulder", weight: 4, density: 5 },  // ice blocks
+    ],
+    weather: { kind: "snowfall", snowGripLoss: 0.3, snowSettleS: 150 },
+    dayCycle: {
+      lengthM: 1000,
+      startAt: 0.1,
+      keyframes: {
+        dawn: {
+          colors: { skyTop: "#3a4a7a", skyMid: "#8a8ab8", skyHorizon: "#e8b8c8", skyBottom: "#f4d4d8" },
+          light: 0.75, stars: 0.3, aurora: 0.25,
+        },
+        day: { colors: {}, light: 1, stars: 0, aurora: 0.35 },
+        dusk: {
+          colors: { skyTop: "#1c1f4a", skyMid: "#4a4a8a", skyHorizon: "#c08aa8", skyBottom: "#e0b0c0" },
+          light: 0.6, stars: 0.45, aurora: 0.45,
+        },
+        // Aurora night: the curtains are at their brightest over a dark blue snowfield.
+        night: {
+          colors: {
+            skyTop: "#020612", skyMid: "#06122a", skyHorizon: "#0e2a48", skyBottom: "#1a3a58",
+            dirtTop: "#4a6478", dirtMid: "#3a5264", dirtBottom: "#2a3e50", grassColor: "#8aa8c0",
+            mountainFar: "#1e3248", mountainNear: "#2a4258", hillFar: "#34506a", hillMid: "#3e5a74", hillNear: "#48647c", forestColor: "#1e3444",
+          },
+          light: 0.3, stars: 1, aurora: 0.85,
+        },
+      },
+    },
     colors: {
       skyTop: "#1a2a4a",
       skyMid: "#2a4a7a",
@@ -145,8 +284,31 @@ export const MAPS: Record<MapId, MapConfig> = {
     iceZones: false,
     seedOffset: 0x9e3779b9,
     fogDensity: 0,
+    fogColor: "#151f30",
     snowParticles: false,
     dustParticles: true,
+    obstacles: [
+      { kind: "boulder", weight: 7, density: 5 },
+      { kind: "crate", weight: 3, density: 2.5 },   // supply crates
+    ],
+    weather: { kind: "moondust", dustVisibility: 0.3 },
+    // The sky stays black; only the sunlight on the ground comes and goes.
+    dayCycle: {
+      lengthM: 1000,
+      startAt: 0.1,
+      keyframes: {
+        dawn: { colors: {}, light: 0.7, stars: 1, aurora: 0 },
+        day: { colors: {}, light: 1, stars: 1, aurora: 0 },
+        dusk: { colors: {}, light: 0.6, stars: 1, aurora: 0 },
+        night: {
+          colors: {
+            dirtTop: "#6a7280", dirtMid: "#50586a", dirtBottom: "#383e4c", grassColor: "#525c6a",
+            hillFar: "#3a4250", hillMid: "#444c5a", hillNear: "#4c5464",
+          },
+          light: 0.3, stars: 1, aurora: 0,
+        },
+      },
+    },
     colors: {
       skyTop: "#03050a",
       skyMid: "#080d1a",
@@ -0,0 +1,135 @@
+import type { MapId } from "./maps";
+import type { UpgradeLevels } from "./upgrades";
+import { VEHICLE_IDS, VEHICLES, VehicleId } from "./vehicles";
+
+export type GameMode = "daily" | "free" | "stage" | "cargo";
+
+// ─── Daily challenge ────────────────────────────────────────────────────────
+
+export const DAY_MS = 86_400_000;
+export const DAILY_PLAYABLE_DAYS = 2; // today and yesterday
+
+// Rotation order is part of every past challenge: append only. Vehicles opt in with their `daily` flag.
+const DAILY_MAPS: MapId[] = ["hills", "desert", "arctic", "moon"];
+const DAILY_VEHICLES: VehicleId[] = VEHICLE_IDS.filter(id => VEHICLES[id].daily);
+
+export interface DailyChallenge {
+  day: number;          // days since the Unix epoch, UTC
+  seed: number;
+  mapId: MapId;
+  vehicleId: VehicleId;
+}
+
+export function utcDay(now = Date.now()): number {
+  return Math.floor(now / DAY_MS);
+}
+
+export function msUntilNextDay(now = Date.now()): number {
+  return (utcDay(now) + 1) * DAY_MS - now;
+}
+
+// Same seed the game always used for "today", so earlier ghosts still line up. Everyone gets the
+// same track, map and vehicle (stock upgrades) on a given UTC day; every map/vehicle pair comes up every 12 days.
+export function dailyChallenge(day = utcDay()): DailyChallenge {
+  return {
+    day,
+    seed: day >>> 0,
+    mapId: DAILY_MAPS[day % DAILY_MAPS.length],
+    vehicleId: DAILY_VEHICLES[Math.floor(day / DAILY_MAPS.length) % DAILY_VEHICLES.length],
+  };
+}
+
+// True when a run is one of the currently playable daily challenges under its rules: the day's
+// seed, map and vehicle, with stock upgrades. Used by the server before it attests a daily score.
+export function isDailyChallengeRun(
+  run: { seed: number; mapId: MapId; vehicleId: VehicleId; upgrades: UpgradeLevels },
+  now = Date.now(),
+): boolean {
+  const today = utcDay(now);
+  if (run.seed > today || run.seed <= today - DAILY_PLAYABLE_DAYS) return false;
+  const c = dailyChallenge(run.seed);
+  return c.mapId === run.mapId && c.vehicleId === run.vehicleId && Object.values(run.upgrades).every(l => l === 0);
+}
+
+export function dailyLabel(day: number, today = utcDay()): string {
+  if (day === today) return "Today";
+  if (day === today - 1) return "Yesterday";
+  return new Date(day * DAY_MS).toISOString().slice(0, 10);
+}
+
+// ─── Daily results ──────────────────────────────────────────────────────────
+
+const DAILY_KEY = "jhc_daily_v1";
+const DAILY_KEEP_DAYS = 14;
+
+export interface DailyRecord {
+  attempts: number;
+  bestM: number;
+  bestCargo: number;    // most crates brought to the depot on that day's track
+  lastRunId: string;    // the run last counted, so a run reported twice is still one attempt
+}
+
+type DailyStore = Record<string, DailyRecord>;
+
+function loadDailyStore(): DailyStore {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(DAILY_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch { return {}; }
+}
+
+export function loadDailyRecord(day: number): DailyRecord {
+  const r = loadDailyStore()[day];
+  return {
+    attempts: Math.max(0, r?.attempts || 0), bestM: Math.max(0, r?.bestM || 0), bestCargo: Math.max(0, r?.bestCargo || 0),
+    lastRunId: typeof r?.lastRunId === "string" ? r.lastRunId : "",
+  };
+}
+
+function saveDailyRecord(day: number, record: DailyRecord) {
+  if (typeof window === "undefined") return;
+  const store = loadDailyStore();
+  store[day] = record;
+  for (const k of Object.keys(store)) if (Number(k) <= day - DAILY_KEEP_DAYS) delete store[k];
+  try { window.localStorage.setItem(DAILY_KEY, JSON.stringify(store)); }
+  catch { /* ignore */ }
+}
+
+// Counts a finished attempt and keeps the best distance of that day. Old days are dropped.
+export function recordDailyAttempt(day: number, runId: string, distanceM: number): DailyRecord & { newBest: boolean } {
+  const prev = loadDailyRecord(day);
+  const meters = Math.max(0, Math.floor(distanceM));
+  const counted = runId !== "" && runId === prev.lastRunId;
+  const next = { ...prev, attempts: prev.attempts + (counted ? 0 : 1), bestM: Math.max(prev.bestM, meters), lastRunId: runId };
+  saveDailyRecord(day, next);
+  return { ...next, newBest: meters > prev.bestM };
+}
+
+// Keeps the most crates delivered on a day's cargo run. Cargo runs don't count as attempts.
+export function recordDailyDelivery(day: number, crates: number): DailyRecord & { newBest: boolean } {
+  const prev = loadDailyRecord(day);
+  const delivered = Math.max(0, Math.floor(crates));
+  const next = { ...prev, bestCargo: Math.max(prev.bestCargo, delivered) };
+  saveDailyRecord(day, next);
+  return { ...next, newBest: delivered > prev.bestCargo };
+}
+
+// ─── Free play seeds ────────────────────────────────────────────────────────
+
+export function randomSeed(): number {
+  return crypto.getRandomValues(new Uint32Array(1))[0];
+}
+
+// Digits are taken as the seed itself; any other text is hashed (FNV-1a) so friends can share a word.
+export function parseSeedInput(text: string): number | null {
+  const t = text.trim();
+  if (!t) return null;
+  if (/^\d+$/.test(t)) {
+    const n = Number(t);
+    return n <= 0xffffffff ? n : null;
+  }
+  let h = 0x811c9dc5;
+  for (let i = 0; i < t.length; i++) h = Math.imul(h ^ t.charCodeAt(i), 0x01000193);
+  return h >>> 0;
+}
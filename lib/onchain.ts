@@ -1,15 +1,12 @@
 "use client";
 
 import {
-  createPublicClient,
   createWalletClient,
   custom,
   encodeFunctionData,
-  http,
   parseEther,
   type Address,
 } from "viem";
-import { base } from "viem/chains";
 
 import {
   getEthereumProvider,
@@ -19,15 +16,19 @@ import {
   type Eip1193Provider,
   type EthereumProviderOptions,
 } from "@/lib/wallet";
-import { scoreboardAbi, runNftAbi } from "@/lib/onchainAbi";
+import { scoreboardAbi, legacyScoreboardAbi, runNftAbi } from "@/lib/onchainAbi";
 import {
   supportsPaymasterService,
   sendSponsoredCallsAndGetTxHash,
 } from "@/lib/gasless";
 import { appendErc8021Suffix, ERC8021_DATA_SUFFIX } from "@/lib/builderCodes";
+import { attestationArgs, MAP_CODES, VEHICLE_CODES, type ScoreAttestation } from "@/lib/attestation";
+import type { MapId } from "@/lib/maps";
+import type { VehicleId } from "@/lib/vehicles";
+import type { Replay } from "@/lib/replay";
+import { CHAIN, CHAIN_ID, CHAIN_ID_HEX, getBaseRpcUrl, publicClient } from "@/lib/chain";
 
-const BASE_CHAIN_ID = 8453;
-const BASE_CHAIN_ID_HEX = "0x2105";
+export { publicClient };
 
 function isUserRejected(e: unknown): boolean {
   const err = e as any;
@@ -49,7 +50,7 @@ async function trySponsoredWriteContract(params: {
   const supported = await supportsPaymasterService({
     provider: params.provider,
     from: params.from as `0x${string}`,
-    chainIdHex: BASE_CHAIN_ID_HEX,
+    chainIdHex: CHAIN_ID_HEX,
   });
   if (!supported) return null;
 
@@ -62,7 +63,7 @@ async function trySponsoredWriteContract(params: {
 
     return await sendSponsoredCallsAndGetTxHash({
       provider: params.provider,
-      chainIdHex: BASE_CHAIN_ID_HEX,
+      chainIdHex: CHAIN_ID_HEX,
       from: params.from as `0x${string}`,
       calls: [{ to: params.to as `0x${string}`, value: "0x0", data }],
     });
@@ -77,27 +78,17 @@ async function trySponsoredWriteContract(params: {
   }
 }
 
-function getBaseRpcUrl() {
-  const env = (process.env.NEXT_PUBLIC_BASE_RPC_URL ?? "").trim();
-  return env || "https://mainnet.base.org";
-}
-
-const publicClient = createPublicClient({
-  chain: base,
-  transport: http(getBaseRpcUrl()),
-});
-
 export async function ensureBaseMainnet(provider?: Eip1193Provider) {
   const p = provider ?? (await getEthereumProvider());
   if (!p) throw new Error("No wallet provider found");
 
   const chainId = await getChainId(p);
-  if (chainId === BASE_CHAIN_ID) return;
+  if (chainId === CHAIN_ID) return;
 
   try {
     await p.request({
       method: "wallet_switchEthereumChain",
-      params: [{ chainId: BASE_CHAIN_ID_HEX }],
+      params: [{ chainId: CHAIN_ID_HEX }],
     });
   } catch (err: any) {
     const code = err?.code ?? err?.data?.originalError?.code;
@@ -110,18 +101,18 @@ export async function ensureBaseMainnet(provider?: Eip1193Provider) {
       method: "wallet_addEthereumChain",
       params: [
         {
-          chainId: BASE_CHAIN_ID_HEX,
-          chainName: "Base",
-          nativeCurrency: { name: "Ether", symbol: "ETH", decimals: 18 },
+          chainId: CHAIN_ID_HEX,
+          chainName: CHAIN.name,
+          nativeCurrency: CHAIN.nativeCurrency,
           rpcUrls: [getBaseRpcUrl()],
-          blockExplorerUrls: ["https://basescan.org"],
+          ...(CHAIN.blockExplorers ? { blockExplorerUrls: [CHAIN.blockExplorers.default.url] } : {}),
         },
       ],
     });
 
     await p.request({
       method: "wallet_switchEthereumChain",
-      params: [{ chainId: BASE_CHAIN_ID_HEX }],
+      params: [{ chainId: CHAIN_ID_HEX }],
     });
   }
 }
@@ -183,7 +174,7 @@ export async function tryAutoConnectWallet(opts?: EthereumProviderOptions): Prom
 
 function getWalletClient(provider: Eip1193Provider, address: Address) {
   return createWalletClient({
-    chain: base,
+    chain: CHAIN,
     transport: custom(provider),
     account: address,
   });
@@ -200,15 +191,72 @@ export async function readBestMeters(scoreboardAddress: string, playerAddress: s
   })) as bigint;
 }
 
-export async function submitScoreMeters(
+// Best on one map with one vehicle (any seed).
+export async function readBestMetersFor(
   scoreboardAddress: string,
-  meters: number,
+  playerAddress: string,
+  mapId: MapId,
+  vehicleId: VehicleId,
+): Promise<bigint> {
+  if (!scoreboardAddress) return 0n;
+
+  return (await publicClient.readContract({
+    address: scoreboardAddress as Address,
+    abi: scoreboardAbi,
+    functionName: "bestMetersFor",
+    args: [playerAddress as Address, MAP_CODES[mapId], VEHICLE_CODES[vehicleId]],
+  })) as bigint;
+}
+
+// Best attested daily-challenge distance for a daily seed (its UTC day).
+export async function readDailyBestMeters(scoreboardAddress: string, playerAddress: string, seed: number): Promise<bigint> {
+  if (!scoreboardAddress) return 0n;
+
+  return (await publicClient.readContract({
+    address: scoreboardAddress as Address,
+    abi: scoreboardAbi,
+    functionName: "dailyBestMeters",
+    args: [seed >>> 0, playerAddress as Address],
+  })) as bigint;
+}
+
+// Overall best on the v1 scoreboard, shown alongside v2 bests until players have resubmitted.
+export async function readLegacyBestMeters(legacyScoreboardAddress: string, playerAddress: string): Promise<bigint> {
+  if (!legacyScoreboardAddress) return 0n;
+
+  return (await publicClient.readContract({
+    address: legacyScoreboardAddress as Address,
+    abi: legacyScoreboardAbi,
+    functionName: "bestMeters",
+    args: [playerAddress as Address],
+  })) as bigint;
+}
+
+async function requestScoreAttestation(replay: Replay, player: Address): Promise<ScoreAttestation> {
+  const res = await fetch("/api/attest-score", {
+    method: "POST",
+    headers: { "content-type": "application/json" },
+    body: JSON.stringify({ replay, player }),
+  });
+  const json = await res.json().catch(() => null);
+  if (!res.ok || !json?.attestation) throw new Error(json?.error ?? `Attestation failed (${res.status})`);
+  return json.attestation as ScoreAttestation;
+}
+
+/**
+ * The scoreboard only accepts server-attested scores: the recorded run is re-verified and signed
+ * for the connected address, then submitted with that signature.
+ */
+export async function submitAttestedScore(
+  scoreboardAddress: string,
+  replay: Replay,
   wallet?: ConnectedWallet,
 ): Promise<string> {
   const { provider, address } = wallet ?? (await getOrConnectWallet());
   await ensureBaseMainnet(provider);
 
-  const m = BigInt(Math.max(0, Math.floor(meters)));
+  const attestation = await requestScoreAttestation(replay, address);
+  const args = attestationArgs(attestation);
 
   const sponsored = await trySponsoredWriteContract({
     provider,
@@ -216,7 +264,7 @@ export async function submitScoreMeters(
     to: scoreboardAddress as Address,
     abi: scoreboardAbi,
     functionName: "submitScore",
-    args: [m],
+    args: [...args],
   });
   if (sponsored) return String(sponsored);
 
@@ -226,7 +274,7 @@ export async function submitScoreMeters(
     encodeFunctionData({
       abi: scoreboardAbi,
       functionName: "submitScore",
-      args: [m],
+      args,
     }) as `0x${string}`,
   );
 
@@ -238,6 +286,13 @@ export async function submitScoreMeters(
   return String(hash);
 }
 
+// Resolves with the block that included the score, so leaderboards can wait until they have indexed it.
+export async function waitForScoreConfirmation(hash: string): Promise<bigint> {
+  const receipt = await publicClient.waitForTransactionReceipt({ hash: hash as `0x${string}` });
+  if (receipt.status !== "success") throw new Error("Score transaction reverted");
+  return receipt.blockNumber;
+}
+
 export async function getNextTokenId(runNftAddress: string): Promise<bigint> {
   if (!runNftAddress) return 1n;
 
@@ -1,5 +1,6 @@
 import type { Abi } from "viem";
 
+// JesseHillClimbScoreboardV2: attested scores, bests per (player, map, vehicle) and per daily seed.
 export const scoreboardAbi = [
   {
     type: "function",
@@ -8,13 +9,83 @@ export const scoreboardAbi = [
     inputs: [{ name: "player", type: "address" }],
     outputs: [{ name: "", type: "uint256" }],
   },
+  {
+    type: "function",
+    name: "bestMetersFor",
+    stateMutability: "view",
+    inputs: [
+      { name: "player", type: "address" },
+      { name: "map", type: "uint8" },
+      { name: "vehicle", type: "uint8" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "function",
+    name: "dailyBestMeters",
+    stateMutability: "view",
+    inputs: [
+      { name: "seed", type: "uint32" },
+      { name: "player", type: "address" },
+    ],
+    outputs: [{ name: "", type: "uint256" }],
+  },
   {
     type: "function",
     name: "submitScore",
     stateMutability: "nonpayable",
-    inputs: [{ name: "meters", type: "uint256" }],
+    inputs: [
+      { name: "meters", type: "uint256" },
+      { name: "map", type: "uint8" },
+      { name: "vehicle", type: "uint8" },
+      { name: "seed", type: "uint32" },
+      { name: "daily", type: "bool" },
+      { name: "run", type: "bytes32" },
+      { name: "expiry", type: "uint256" },
+      { name: "signature", type: "bytes" },
+    ],
     outputs: [],
   },
+  {
+    type: "function",
+    name: "usedRuns",
+    stateMutability: "view",
+    inputs: [{ name: "run", type: "bytes32" }],
+    outputs: [{ name: "", type: "bool" }],
+  },
+  {
+    type: "event",
+    name: "ScoreSubmitted",
+    inputs: [
+      { name: "player", type: "address", indexed: true },
+      { name: "map", type: "uint8", indexed: true },
+      { name: "vehicle", type: "uint8", indexed: true },
+      { name: "seed", type: "uint32", indexed: false },
+      { name: "daily", type: "bool", indexed: false },
+      { name: "meters", type: "uint256", indexed: false },
+      { name: "newBestMeters", type: "uint256", indexed: false },
+    ],
+  },
+] as const satisfies Abi;
+
+// JesseHillClimbScoreboard (v1): one global best per player. Read-only during the migration to v2.
+export const legacyScoreboardAbi = [
+  {
+    type: "function",
+    name: "bestMeters",
+    stateMutability: "view",
+    inputs: [{ name: "player", type: "address" }],
+    outputs: [{ name: "", type: "uint256" }],
+  },
+  {
+    type: "event",
+    name: "ScoreSubmitted",
+    inputs: [
+      { name: "player", type: "address", indexed: true },
+      { name: "meters", type: "uint256", indexed: false },
+      { name: "newBestMeters", type: "uint256", indexed: false },
+    ],
+  },
 ] as const satisfies Abi;
 
 export const runNftAbi = [
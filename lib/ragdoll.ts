@@ -0,0 +1,110 @@
+import planck from "planck-js";
+import type { VehicleRig } from "./vehicles";
+
+// The driver as a small ragdoll: head, torso, one arm and one leg. Seated, it rides on a single weld to
+// the chassis with its own joints locked, and every fixture is a sensor, so it adds a little weight but
+// never bumps into anything; the head sensor is what the crash rules watch. Released, the seat weld goes,
+// the joints go limp and the parts tumble against the ground and props like any other body.
+
+const Vec2 = planck.Vec2;
+
+// Collision categories: the driver never touches the car it sits in, wheels included, nor itself.
+export const CAR_CATEGORY = 0x0004;
+export const WHEEL_CATEGORY = 0x0008;
+const DRIVER_CATEGORY = 0x0002;
+const DRIVER_MASK = 0xffff & ~(CAR_CATEGORY | WHEEL_CATEGORY | DRIVER_CATEGORY);
+
+const DRIVER_MASS_SHARE = 0.05;  // of the chassis mass, so every vehicle's handling shifts the same little bit
+const SEAT_BREAK_ACCEL = 480;    // m/s², about 50 g: hitting a pit wall nose first, not a rough landing
+export const SKULL_R = 0.2;      // the head's collision radius once loose, about the size of the drawn sprite
+const LIMB_FRICTION = 0.02;      // joint friction torque per kg, so a loose driver flops instead of spinning
+
+export type DriverPart = "head" | "torso" | "arm" | "leg";
+export type Limb = Exclude<DriverPart, "head">;
+
+// Half extents (m) of the limb boxes, for drawing.
+export const LIMB_SIZE: Record<Limb, { hw: number; hh: number }> = {
+  torso: { hw: 0.09, hh: 0.2 },
+  arm: { hw: 0.16, hh: 0.04 },
+  leg: { hw: 0.18, hh: 0.05 },
+};
+
+// Loose joint ranges (rad, child relative to torso).
+const LOOSE: Record<Limb | "head", [number, number]> = {
+  head: [-0.6, 0.6],
+  torso: [0, 0],
+  arm: [-2.6, 1.4],
+  leg: [-1.9, 0.5],
+};
+
+export type Driver = {
+  parts: Record<DriverPart, planck.Body>;
+  seated: boolean;
+  release: () => void;
+  seatOverloaded: (invDt: number) => boolean;  // true when the last step pulled harder on the seat than it holds
+};
+
+export function createDriver(world: planck.World, chassis: planck.Body, rig: VehicleRig): Driver {
+  const { x: hx, y: hy, r } = rig.head;
+  const at = (x: number, y: number) => chassis.getWorldPoint(Vec2(x, y));
+  const angle = chassis.getAngle();
+
+  // Seated pose in chassis space, hung off the head: upright torso, arm reaching for the wheel, thigh forward.
+  const layout: Record<Limb, { x: number; y: number; angle: number }> = {
+    torso: { x: hx - 0.02, y: hy - 0.3, angle: 0 },
+    arm: { x: hx + 0.13, y: hy - 0.24, angle: -0.5 },
+    leg: { x: hx + 0.14, y: hy - 0.46, angle: 0 },
+  };
+  const area = Math.PI * r * r + (Object.keys(LIMB_SIZE) as Limb[]).reduce((a, k) => a + 4 * LIMB_SIZE[k].hw * LIMB_SIZE[k].hh, 0);
+  const fixture = { density: DRIVER_MASS_SHARE * chassis.getMass() / area, friction: 0.6, isSensor: true, filterCategoryBits: DRIVER_CATEGORY, filterMaskBits: DRIVER_MASK };
+
+  const body = (part: DriverPart, x: number, y: number, a: number) => {
+    const b = world.createDynamicBody({ position: at(x, y), angle: angle + a, angularDamping: 0.4 });
+    b.setUserData({ kind: "driver", part });
+    return b;
+  };
+  const head = body("head", hx, hy, 0);
+  head.createFixture(planck.Circle(r), fixture);
+  const limbs = {} as Record<Limb, planck.Body>;
+  for (const k of Object.keys(layout) as Limb[]) {
+    const l = layout[k];
+    limbs[k] = body(k, l.x, l.y, l.angle);
+    limbs[k].createFixture(planck.Box(LIMB_SIZE[k].hw, LIMB_SIZE[k].hh), fixture);
+  }
+  const { torso, arm, leg } = limbs;
+
+  const lockedJoint = (b: planck.Body, x: number, y: number) => world.createJoint(planck.RevoluteJoint(
+    { enableLimit: true, lowerAngle: 0, upperAngle: 0, enableMotor: true, motorSpeed: 0, maxMotorTorque: 0 },
+    torso, b, at(x, y),
+  )) as planck.RevoluteJoint;
+  const joints: [planck.RevoluteJoint, Limb | "head"][] = [
+    [lockedJoint(head, hx, hy - r), "head"],
+    [lockedJoint(arm, hx - 0.01, hy - 0.16), "arm"],
+    [lockedJoint(leg, hx - 0.04, hy - 0.46), "leg"],
+  ];
+  let seat: planck.WeldJoint | null = world.createJoint(planck.WeldJoint({}, chassis, torso, torso.getPosition())) as planck.WeldJoint;
+
+  const parts = { head, torso, arm, leg };
+  const mass = (Object.values(parts) as planck.Body[]).reduce((m, b) => m + b.getMass(), 0);
+
+  const driver: Driver = {
+    parts,
+    seated: true,
+    release: () => {
+      if (!seat) return;
+      world.destroyJoint(seat);
+      seat = null;
+      driver.seated = false;
+      for (const [j, k] of joints) {
+        j.setLimits(LOOSE[k][0], LOOSE[k][1]);
+        j.setMaxMotorTorque(LIMB_FRICTION * mass);
+      }
+      for (const b of Object.values(parts) as planck.Body[]) {
+        for (let f = b.getFixtureList(); f; f = f.getNext()) f.setSensor(false);
+      }
+      head.createFixture(planck.Circle(SKULL_R), { ...fixture, isSensor: false, density: fixture.density * 0.25 });
+    },
+    seatOverloaded: (invDt) => seat !== null && seat.getReactionForce(invDt).length() > SEAT_BREAK_ACCEL * mass,
+  };
+  return driver;
+}
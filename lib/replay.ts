@@ -0,0 +1,128 @@
+import type { Address } from "viem";
+import type { HeadId } from "./heads";
+import type { MapId } from "./maps";
+import type { StageId } from "./stages";
+import type { UpgradeLevels } from "./upgrades";
+import type { VehicleId } from "./vehicles";
+import { GameSimulation, HillClimbState, SimEvent, SimInput, SIM_VERSION } from "./simulation";
+
+// Replays store inputs, not positions: the simulation is deterministic, so seed + setup + per-step
+// input is enough to rebuild a run exactly.
+
+export const REPLAY_FORMAT = 1;
+const REPLAY_PREFIX = "jhcr1.";
+
+// [step, throttle in hundredths (-100..100), boost 0/1]; one entry per change, held until the next one.
+export type ReplayInput = [number, number, number];
+// [step, wall-clock ms spent paused before that step]; informational, paused time never advances the simulation.
+export type ReplayPause = [number, number];
+
+export type Replay = {
+  v: number;         // REPLAY_FORMAT
+  physics: number;   // SIM_VERSION the run was recorded with
+  runId: string;
+  seed: number;
+  mapId: MapId;
+  vehicleId: VehicleId;
+  headId: HeadId;
+  upgrades: UpgradeLevels;
+  stageId?: StageId;  // absent for endless runs
+  cargo?: true;       // a cargo delivery run; absent otherwise
+  player?: Address;   // wallet connected when the run started; only it can save the score
+  inputs: ReplayInput[];
+  pauses: ReplayPause[];
+  // Filled in at game over
+  ticks: number;
+  distanceM: number;
+  status: HillClimbState["status"];
+};
+
+export type ReplayResult = { ticks: number; distanceM: number; status: HillClimbState["status"] };
+
+// Live play feeds the quantized value to the simulation too, so a recording replays bit-for-bit.
+export function quantizeInput(input: SimInput): SimInput {
+  return { throttle: Math.round(Math.max(-1, Math.min(1, input.throttle)) * 100) / 100, boost: Boolean(input.boost) };
+}
+
+export function createReplay(setup: Pick<Replay, "runId" | "seed" | "mapId" | "vehicleId" | "headId" | "upgrades" | "stageId" | "cargo" | "player">): Replay {
+  return {
+    v: REPLAY_FORMAT, physics: SIM_VERSION, ...setup, upgrades: { ...setup.upgrades },
+    inputs: [], pauses: [], ticks: 0, distanceM: 0, status: "IDLE",
+  };
+}
+
+export function recordInput(rep: Replay, tick: number, input: SimInput) {
+  const t = Math.round(input.throttle * 100), b = input.boost ? 1 : 0;
+  const last = rep.inputs[rep.inputs.length - 1];
+  if (last && last[1] === t && last[2] === b) return;
+  if (last && last[0] === tick) { last[1] = t; last[2] = b; return; }
+  rep.inputs.push([tick, t, b]);
+}
+
+export function recordPause(rep: Replay, tick: number, ms: number) {
+  const last = rep.pauses[rep.pauses.length - 1];
+  if (last && last[0] === tick) last[1] += Math.round(ms);
+  else rep.pauses.push([tick, Math.round(ms)]);
+}
+
+export function finishReplay(rep: Replay, ticks: number, state: HillClimbState) {
+  rep.ticks = ticks;
+  rep.distanceM = state.distanceM;
+  rep.status = state.status;
+}
+
+// One live step of a recorded run: the input is stamped before the step and the recording is closed on
+// the step the run is over. A closed recording has already been handed out, so the steps that follow
+// while the car settles never reach it.
+export function stepRecording(sim: GameSimulation, rep: Replay, input: SimInput): SimEvent[] {
+  const open = rep.ticks === 0;
+  if (open) recordInput(rep, sim.tick, input);
+  const events = sim.step(input);
+  if (open && sim.over) finishReplay(rep, sim.tick, sim.state);
+  return events;
+}
+
+// Returns the input for each step in order; steps must be requested with a non-decreasing tick.
+export function createReplayPlayer(rep: Replay) {
+  let i = 0;
+  let cur: SimInput = { throttle: 0, boost: false };
+  return (tick: number): SimInput => {
+    while (i < rep.inputs.length && rep.inputs[i][0] <= tick) {
+      cur = { throttle: rep.inputs[i][1] / 100, boost: rep.inputs[i][2] === 1 };
+      i++;
+    }
+    return cur;
+  };
+}
+
+export function createReplaySimulation(rep: Replay) {
+  return new GameSimulation({
+    seed: rep.seed, mapId: rep.mapId, vehicleId: rep.vehicleId, upgrades: rep.upgrades, runId: rep.runId, stageId: rep.stageId, cargo: rep.cargo,
+  });
+}
+
+// Re-simulates a recording headlessly for its recorded number of steps, stopping early if the run is over.
+export function runReplay(rep: Replay): ReplayResult {
+  const sim = createReplaySimulation(rep);
+  const inputAt = createReplayPlayer(rep);
+  while (sim.tick < rep.ticks && !sim.over) sim.step(inputAt(sim.tick));
+  return { ticks: sim.tick, distanceM: sim.state.distanceM, status: sim.state.status };
+}
+
+export function encodeReplay(rep: Replay): string {
+  return REPLAY_PREFIX + btoa(JSON.stringify(rep)).replace(/\+/g, "-").replace(/\//g, "_").replace(/=+$/, "");
+}
+
+// Null when the string is malformed or was recorded with a different format or physics version.
+export function decodeReplay(raw: string): Replay | null {
+  try {
+    if (!raw.startsWith(REPLAY_PREFIX)) return null;
+    const b64 = raw.slice(REPLAY_PREFIX.length).replace(/-/g, "+").replace(/_/g, "/");
+    const rep = JSON.parse(atob(b64)) as Replay;
+    if (rep?.v !== REPLAY_FORMAT || rep.physics !== SIM_VERSION) return null;
+    if (!Array.isArray(rep.inputs) || !Array.isArray(rep.pauses) || !Number.isFinite(rep.seed) || !Number.isFinite(rep.ticks)) return null;
+    return rep;
+  } catch {
+    return null;
+  }
+}
@@ -0,0 +1,1191 @@
+import planck from "planck-js";
+import { ChassisPart, VehicleId, VehicleRig, VEHICLES, VehiclePhysics } from "./vehicles";
+import { MapId, MAPS, ObstacleKind, ObstacleSpec } from "./maps";
+import { UpgradeLevels, applyUpgrades, defaultUpgradeLevels } from "./upgrades";
+import { StageConfig, StageId, STAGES } from "./stages";
+import { Weather, WeatherReading, createWeather } from "./weather";
+import { CAR_CATEGORY, Driver, WHEEL_CATEGORY, createDriver } from "./ragdoll";
+import { Cargo, createCargo } from "./cargo";
+import { Damage, createDamage } from "./damage";
+
+// Headless game rules: terrain, vehicle rig, pickups, flips, fuel, damage and crashes. No DOM, no canvas,
+// no audio, so the same run can be stepped in the browser, in Node, by a bot or from a replay.
+
+export type HillClimbState = {
+  runId: string;    // fresh per reset(); used to settle each run's coins exactly once
+  distanceM: number;
+  bestM: number;
+  coins: number;
+  fuel: number;     // litres left in the tank
+  fuelMax: number;  // tank size: vehicle capacity with the Fuel Tank upgrade applied
+  status: "IDLE" | "RUN" | "CRASH" | "OUT_OF_FUEL" | "FINISHED" | "DESTROYED";
+  timeS: number;    // seconds driven since leaving the start line
+  rpm01: number;
+  boost01: number;
+  speedKmh: number;
+  airtimeS: number;
+  flips: number;
+  damage01: number; // the hull's damage meter; 1 is DESTROYED
+  toast: string;
+  toastT: number;
+  weather: WeatherReading | null;  // null on clear maps and in stages
+  cargo: { aboard: number; total: number; depotM: number | null } | null;  // null outside cargo runs; depotM once the depot streams in
+};
+
+// What the player is holding during one step. `throttle` is the raw target in [-1, 1]; the simulation smooths it.
+export type SimInput = { throttle: number; boost: boolean };
+
+export type SimEvent =
+  | { type: "pickup"; kind: Pickup["kind"]; value: number }
+  | { type: "flip"; gained: number }
+  | { type: "refuel" }      // a fuel can picked up with an empty tank restarts the run
+  | { type: "outOfFuel" }
+  | { type: "crash" }
+  | { type: "wheelLost"; index: number }
+  | { type: "destroyed" }    // the hull's damage meter filled, or the driven axle lost its last wheel
+  | { type: "finish" }       // a stage's finish line or the cargo depot was reached
+  | { type: "cargoLost"; aboard: number }
+  | { type: "delivered"; crates: number };
+
+export type GameSimulationOptions = {
+  seed: number;
+  mapId: MapId;
+  vehicleId: VehicleId;
+  upgrades?: UpgradeLevels;
+  bestM?: number;
+  runId?: string;
+  stageId?: StageId;   // play a handcrafted stage instead of the seeded endless track
+  cargo?: boolean;     // haul the vehicle's load to a depot on the seeded track; ignored on stages
+};
+
+// Bump whenever the same inputs can produce a different run (physics, terrain, pickups or rules),
+// so recorded replays from an older build are rejected instead of silently diverging.
+export const SIM_VERSION = 7;
+
+const Vec2 = planck.Vec2;
+export const HZ = 60;
+export const DT = 1 / HZ;
+const VEL_ITERS = 8;
+const POS_ITERS = 3;
+
+const clamp = (v: number, lo: number, hi: number) => Math.max(lo, Math.min(hi, v));
+const clamp01 = (v: number) => clamp(v, 0, 1);
+const wrapAngle = (angle: number) => Math.atan2(Math.sin(angle), Math.cos(angle));
+
+const TRACK_X0 = -40;
+const TRACK_DX = 0.25;
+// Terrain is streamed in chunks around the car: built ahead, destroyed behind.
+const CHUNK_SAMPLES = 160; // 40 m of ground per static body
+const STREAM_AHEAD = 90;
+const STREAM_BEHIND = 60;
+const COIN_GROUP_X0 = 12, COIN_GROUP_DX = 24;
+const FUEL_X0 = 32, FUEL_DX = 62;
+const OBSTACLE_X0 = 70, OBSTACLE_DX = 34;
+// Cargo runs: the depot is laid at the first segment boundary past this distance.
+export const CARGO_DEPOT_M = 300;
+const DEPOT_LEN = 12;
+
+export type IceZone = { x0: number; x1: number };
+
+// Set pieces the generator mixes in with the rolling terrain. `x0..x1` is the part drawn specially and
+// `y0`/`y1` the ground height at its ends: a ramp runs from its foot to the lip, steps from the first
+// riser to the last, and a gap or bridge spans its pit between the two rims. A depot is a level yard
+// at the end of a cargo run.
+export type TrackFeatureKind = "ramp" | "gap" | "bridge" | "steps" | "depot";
+export type TrackFeature = { kind: TrackFeatureKind; x0: number; x1: number; y0: number; y1: number };
+
+// A sliding window over the endless track. Sample k (global) sits at x = TRACK_X0 + k * TRACK_DX;
+// `ys[0]` is global sample `i0`, so samples behind the camera can be dropped without renumbering.
+export type Track = { i0: number; ys: number[]; ice: IceZone[]; features: TrackFeature[] };
+
+type TrackStream = {
+  track: Track;
+  extendTo: (x: number) => void;   // generate samples (ice and features) up to at least x
+  trimBefore: (x: number) => void; // forget samples (ice and features) behind x
+};
+
+// Ice patches keep this fraction of the map's ground friction.
+const ICE_FRICTION_MUL = 0.18;
+
+const PIT_DEPTH = 3.2;        // gaps and bridges drop this far below their rims
+const BRIDGE_PLANK_LEN = 0.7;
+const BRIDGE_SAG = 0.03;      // the deck hangs this fraction of its span below the rims
+// Fixtures sharing a negative group never collide: bridge planks pass through the ground they hang over.
+const TERRAIN_GROUP = -1;
+
+// Half extents in metres; logs and boulders use `hw` as their radius.
+const OBSTACLE_SIZE: Record<ObstacleKind, { hw: number; hh: number }> = {
+  crate: { hw: 0.27, hh: 0.27 },
+  barrel: { hw: 0.22, hh: 0.34 },
+  log: { hw: 0.22, hh: 0.22 },
+  boulder: { hw: 0.3, hh: 0.3 },
+};
+
+export function mulberry32(seed: number) {
+  return function () {
+    let t = (seed += 0x6d2b79f5);
+    t = Math.imul(t ^ (t >>> 15), t | 1);
+    t ^= t + Math.imul(t ^ (t >>> 7), t | 61);
+    return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+  };
+}
+
+export function newRunId(seed: number) {
+  return `${seed.toString(36)}-${Date.now().toString(36)}-${Math.floor(Math.random() * 0xffffff).toString(36)}`;
+}
+
+const trackX = (k: number) => TRACK_X0 + k * TRACK_DX;
+
+// Streams terrain sample by sample. Generation is strictly sequential from the seed, so the same seed
+// yields the same track no matter how far ahead or in which chunk sizes it gets pulled.
+function createTrackStream(seed = 1337, withIce = false, depotAt?: number): TrackStream {
+  const rnd = mulberry32(seed);
+  const track: Track = { i0: 0, ys: [], ice: [], features: [] };
+
+  type SegKind = "flat" | "roll" | "hill" | TrackFeatureKind;
+  const smooth01 = (t: number) => {
+    const u = clamp01(t);
+    return u * u * (3 - 2 * u);
+  };
+
+  let x = TRACK_X0;
+  let y = 0.86;
+  let lastDy = 0;
+  let kind: SegKind = "flat";
+  let segLen = 24;
+  let segT = 0;
+  let y0 = y;
+  let y1 = y;
+  let bump = 0;
+  let phase = rnd() * Math.PI * 2;
+  // Feature segments replace the slope-limited walk with a fixed profile over segT. Sharp ones also
+  // skip smoothing so lips and pit walls stay vertical.
+  let featureY: ((s: number) => number) | null = null;
+  let featureSharp = false;
+  let depotLaid = false;
+
+  const SLOPE_KIND_MUL: Record<"flat" | "roll" | "hill", number> = { flat: 1, roll: 1.08, hill: 1.16 };
+
+  // Lays out a feature starting at the current x and y. Every feature ends on a level stretch inside the
+  // walk's height range, so the next segment picks up from there.
+  const chooseFeature = (diff: number, baseline: number) => {
+    const xs = x, ys = y;
+    const level = (v: number) => clamp(v, -0.4, 4.7);
+    const add = (fx0: number, fx1: number, fy0: number, fy1: number) =>
+      track.features.push({ kind: kind as TrackFeatureKind, x0: xs + fx0, x1: xs + fx1, y0: fy0, y1: fy1 });
+
+    if (kind === "ramp") {
+      // A kicker up to a lip, a drop, then a long landing slope.
+      const run = 6 + rnd() * 2, lift = 0.7 + 0.5 * diff + rnd() * 0.3;
+      const land = 10 + rnd() * 5, landTop = ys + lift * 0.3, yEnd = level(ys - 0.4 - rnd() * 0.4);
+      featureY = (s) => s < run ? ys + lift * (s / run) ** 2
+        : s < run + land ? landTop + (yEnd - landTop) * smooth01((s - run) / land)
+        : yEnd;
+      featureSharp = true;
+      segLen = run + land + 3;
+      add(0, run, ys, ys + lift);
+    } else if (kind === "gap") {
+      // A short kick, an open pit to clear and a slightly lower landing.
+      const kick = 3, width = 2 + 1.6 * diff + rnd() * 0.8, rim = ys + 0.35, yEnd = level(ys - 0.25);
+      featureY = (s) => s < kick ? ys + 0.35 * (s / kick) ** 2 : s < kick + width ? rim - PIT_DEPTH : yEnd;
+      featureSharp = true;
+      segLen = kick + width + 6;
+      add(kick, kick + width, rim, yEnd);
+    } else if (kind === "bridge") {
+      // Level rims either side of a wide pit; GameSimulation hangs the planks.
+      const approach = 2, width = 7 + rnd() * (3 + 2 * diff);
+      featureY = (s) => s >= approach && s < approach + width ? ys - PIT_DEPTH : ys;
+      featureSharp = true;
+      segLen = approach + width + 3;
+      add(approach, approach + width, ys, ys);
+    } else if (kind === "depot") {
+      // A short level run-in, then the yard.
+      featureY = () => ys;
+      featureSharp = false;
+      segLen = DEPOT_LEN + 6;
+      add(2, 2 + DEPOT_LEN, ys, ys);
+    } else {
+      // Rocky risers with flat treads, climbing towards the baseline (or down if that runs out of room).
+      const n = 3 + Math.floor(rnd() * 3), rise = 0.28 + rnd() * 0.14, tread = 2.4 + rnd() * 1.2;
+      let dir = ys > baseline ? -1 : 1;
+      if (level(ys + dir * rise * n) !== ys + dir * rise * n) dir = -dir;
+      const approach = 1;
+      featureY = (s) => {
+        const t = Math.max(0, s - approach), i = Math.min(n - 1, Math.floor(t / tread));
+        return ys + dir * rise * (i + clamp01((t - i * tread) / 0.5));
+      };
+      featureSharp = false;
+      segLen = approach + n * tread + 2;
+      add(approach, approach + n * tread, ys, ys + dir * rise * n);
+    }
+  };
+
+  const chooseSeg = (d: number) => {
+    const diff = clamp01((d - 2) / 160);
+    const afterFeature = featureY !== null;
+    featureY = null;
+    featureSharp = false;
+    if (depotAt !== undefined && !depotLaid && TRACK_X0 + d >= depotAt) {
+      kind = "depot";
+      depotLaid = true;
+    } else if (d < 25) {
+      kind = "hill";
+    } else if (d < 60) {
+      kind = rnd() < 0.15 ? "roll" : "hill";
+    } else {
+      // Features never follow each other directly, and gaps wait until the driver has some speed.
+      const wFlat = 0.08, wRoll = 0.32, wHill = 0.60 + 0.32 * diff;
+      const wRamp = afterFeature || d < 100 ? 0 : 0.05 + 0.05 * diff;
+      const wSteps = afterFeature || d < 100 ? 0 : 0.04 + 0.05 * diff;
+      const wBridge = afterFeature || d < 140 ? 0 : 0.04 + 0.02 * diff;
+      const wGap = afterFeature || d < 180 ? 0 : 0.02 + 0.06 * diff;
+      let r = rnd() * (wFlat + wRoll + wHill + wRamp + wSteps + wBridge + wGap);
+      if ((r -= wFlat) < 0) kind = "flat";
+      else if ((r -= wRoll) < 0) kind = "roll";
+      else if ((r -= wHill) < 0) kind = "hill";
+      else if ((r -= wRamp) < 0) kind = "ramp";
+      else if ((r -= wSteps) < 0) kind = "steps";
+      else if ((r -= wBridge) < 0) kind = "bridge";
+      else kind = "gap";
+    }
+
+    const baseline = 0.95 + 0.35 * diff;
+    const basePull = (baseline - y) * (kind === "hill" ? 0.55 : 0.80);
+
+    if (kind === "flat") {
+      y1 = y0 + basePull + (rnd() * 2 - 1) * 0.10;
+      bump = 0;
+      segLen = 10 + rnd() * 18;
+    } else if (kind === "roll") {
+      y1 = y0 + basePull + (rnd() * 2 - 1) * (0.34 + 0.20 * diff);
+      bump = 0.55 + rnd() * (0.75 + 0.40 * diff);
+      segLen = 14 + rnd() * 22;
+      // Ensure smooth slope: max sine derivative is bump * 2 * PI / segLen
+      segLen = Math.max(segLen, bump * 12); 
+    } else if (kind === "hill") {
+      y1 = y0 + basePull + (rnd() * 2 - 1) * (1.10 + 0.95 * diff);
+      bump = 1.60 + rnd() * (2.35 + 1.75 * diff);
+      if (rnd() < 0.30 + 0.20 * diff) bump *= 1.35;
+      segLen = 18 + rnd() * 44;
+      // Ensure smooth slope: max sine derivative is bump * PI / segLen. We limit slope to ~0.35.
+      segLen = Math.max(segLen, bump * 10);
+    } else {
+      bump = 0;
+      chooseFeature(diff, baseline);
+    }
+
+    segT = 0;
+    y0 = y;
+    phase = rnd() * Math.PI * 2;
+  };
+
+  chooseSeg(0);
+
+  // Raw (unsmoothed) samples; `raw[0]` is global sample `rawI0`. `sharp` marks samples kept unsmoothed.
+  const raw: number[] = [];
+  const sharp: boolean[] = [];
+  let rawI0 = 0;
+
+  const pushRaw = () => {
+    const d = x - TRACK_X0;
+    if (segT >= segLen) chooseSeg(d);
+
+    if (featureY) {
+      y = featureY(segT);
+      lastDy = 0;
+      raw.push(y);
+      sharp.push(featureSharp);
+      x += TRACK_DX;
+      segT += TRACK_DX;
+      return;
+    }
+
+    const startEase = clamp01(d / 20); // 20 meters of gentle start
+    const diff = clamp01((d - 10) / 220);
+    const easy = 1 - clamp01((d - 2) / 40);
+
+    const slopeKindMul = SLOPE_KIND_MUL[kind as keyof typeof SLOPE_KIND_MUL];
+    const slopeMaxBase = (0.28 * easy) + (0.44 + 0.52 * diff) * (1 - easy);
+    const slopeMax = clamp(slopeMaxBase * (0.40 + 0.60 * startEase) * slopeKindMul, 0.08, 0.42); 
+    const maxStep = slopeMax * TRACK_DX;
+    const curvMax = (0.020 + 0.026 * diff) * TRACK_DX;
+
+    const u = clamp01(segT / Math.max(0.001, segLen));
+    const su = smooth01(u);
+    let targetY = y0 + (y1 - y0) * su;
+
+    if ((kind as SegKind) === "roll") {
+      targetY += bump * Math.sin(u * Math.PI * 2 + phase);
+    } else if ((kind as SegKind) === "hill") {
+      targetY += bump * Math.sin(u * Math.PI);
+    }
+
+    const micro = (Math.sin((x + 12.3) * 0.85) * 0.012 + Math.sin((x - 7.1) * 1.95) * 0.005) * startEase;
+    targetY += micro;
+
+    let dy = clamp(targetY - y, -maxStep, maxStep);
+    dy = clamp(dy, lastDy - curvMax, lastDy + curvMax);
+    lastDy = dy;
+
+    y = clamp(y + dy, -0.55, 4.9);
+    raw.push(y);
+    sharp.push(false);
+
+    x += TRACK_DX;
+    segT += TRACK_DX;
+  };
+
+  // Two passes of [1 2 1]/4 smoothing, folded into one [1 4 6 4 1]/16 kernel so it can run on a stream.
+  const smoothAt = (k: number) => {
+    const r = (j: number) => raw[Math.max(0, j) - rawI0];
+    if (sharp[k - rawI0]) return r(k);
+    return (r(k - 2) + 4 * r(k - 1) + 6 * r(k) + 4 * r(k + 1) + r(k + 2)) / 16;
+  };
+
+  const PAD_X0 = -4, PAD_X1 = 8, PAD_BLEND = 25; // Blended over 25 meters instead of 3!
+  let padDone = false;
+  const flattenSpawnPad = () => {
+    const iPad = Math.round((0 - TRACK_X0) / TRACK_DX) - track.i0;
+    const yPad = track.ys[iPad];
+    for (let i = 0; i < track.ys.length; i++) {
+      const xx = trackX(track.i0 + i);
+      if (xx >= PAD_X0 && xx <= PAD_X1) {
+        track.ys[i] = yPad;
+      } else if (xx > PAD_X0 - PAD_BLEND && xx < PAD_X0) {
+        const t = smooth01((xx - (PAD_X0 - PAD_BLEND)) / PAD_BLEND);
+        track.ys[i] = track.ys[i] * (1 - t) + yPad * t;
+      } else if (xx > PAD_X1 && xx < PAD_X1 + PAD_BLEND) {
+        const t = smooth01((xx - PAD_X1) / PAD_BLEND);
+        track.ys[i] = yPad * (1 - t) + track.ys[i] * t;
+      }
+    }
+    padDone = true;
+  };
+
+  // Seeded low-friction patches for maps with `iceZones`. Same seed => same patches, so daily runs stay fair.
+  const iceRnd = mulberry32((seed ^ 0x1cec01d) >>> 0);
+  let iceNextX = 35 + iceRnd() * 25; // the spawn pad and the first climb always keep full grip
+
+  const extendTo = (xTarget: number) => {
+    const kTarget = Math.ceil((Math.max(xTarget, PAD_X1 + PAD_BLEND) - TRACK_X0) / TRACK_DX);
+    while (track.i0 + track.ys.length <= kTarget) {
+      const k = track.i0 + track.ys.length;
+      while (rawI0 + raw.length <= k + 2) pushRaw();
+      track.ys.push(smoothAt(k));
+    }
+    // Only the last few raw samples are needed to smooth what comes next.
+    const keepFrom = track.i0 + track.ys.length - 2;
+    if (keepFrom > rawI0) { raw.splice(0, keepFrom - rawI0); sharp.splice(0, keepFrom - rawI0); rawI0 = keepFrom; }
+
+    if (!padDone) flattenSpawnPad();
+
+    while (withIce && iceNextX < trackX(kTarget)) {
+      const len = 6 + iceRnd() * 16;
+      track.ice.push({ x0: iceNextX, x1: iceNextX + len });
+      iceNextX += len + 22 + iceRnd() * 58;
+    }
+  };
+
+  const trimBefore = (xCut: number) => {
+    const drop = Math.min(track.ys.length - 2, Math.floor((xCut - TRACK_X0) / TRACK_DX) - track.i0);
+    if (drop > 0) { track.ys.splice(0, drop); track.i0 += drop; }
+    while (track.ice.length > 0 && track.ice[0].x1 < xCut) track.ice.shift();
+    while (track.features.length > 0 && track.features[0].x1 < xCut) track.features.shift();
+  };
+
+  extendTo(0);
+  return { track, extendTo, trimBefore };
+}
+
+// Stage terrain: a Catmull-Rom curve through the authored control points, flat before the first
+// and after the last. Samples are pure functions of x, so the stream needs no generator state.
+function createStageTrackStream(stage: StageConfig): TrackStream {
+  const track: Track = { i0: 0, ys: [], ice: [], features: [] };
+  const pts = stage.points;
+  const slope = (i: number) => {
+    if (i <= 0 || i >= pts.length - 1) return 0;
+    return (pts[i + 1][1] - pts[i - 1][1]) / (pts[i + 1][0] - pts[i - 1][0]);
+  };
+  let seg = 0;
+  const yAt = (x: number) => {
+    if (x <= pts[0][0]) return pts[0][1];
+    if (x >= pts[pts.length - 1][0]) return pts[pts.length - 1][1];
+    while (seg > 0 && x < pts[seg][0]) seg--;
+    while (x >= pts[seg + 1][0]) seg++;
+    const [x0, y0] = pts[seg], [x1, y1] = pts[seg + 1];
+    const h = x1 - x0, t = (x - x0) / h, t2 = t * t, t3 = t2 * t;
+    return (2 * t3 - 3 * t2 + 1) * y0 + (t3 - 2 * t2 + t) * h * slope(seg) + (-2 * t3 + 3 * t2) * y1 + (t3 - t2) * h * slope(seg + 1);
+  };
+
+  let iceNext = 0;
+  const extendTo = (xTarget: number) => {
+    const kTarget = Math.ceil((xTarget - TRACK_X0) / TRACK_DX);
+    while (track.i0 + track.ys.length <= kTarget) track.ys.push(yAt(trackX(track.i0 + track.ys.length)));
+    const ice = stage.ice ?? [];
+    while (iceNext < ice.length && ice[iceNext].x0 < trackX(kTarget)) track.ice.push(ice[iceNext++]);
+  };
+
+  const trimBefore = (xCut: number) => {
+    const drop = Math.min(track.ys.length - 2, Math.floor((xCut - TRACK_X0) / TRACK_DX) - track.i0);
+    if (drop > 0) { track.ys.splice(0, drop); track.i0 += drop; }
+    while (track.ice.length > 0 && track.ice[0].x1 < xCut) track.ice.shift();
+  };
+
+  extendTo(0);
+  return { track, extendTo, trimBefore };
+}
+
+export function isOnIce(track: Track, x: number) {
+  for (const z of track.ice) {
+    if (x < z.x0) return false;
+    if (x <= z.x1) return true;
+  }
+  return false;
+}
+
+// Where a driver expects the ground: across a gap or bridge, the line between its rims rather than the pit floor.
+export function sampleSurfaceY(track: Track, x: number) {
+  for (const f of track.features) {
+    if (x < f.x0) break;
+    if (x <= f.x1 && (f.kind === "gap" || f.kind === "bridge")) return f.y0 + (f.y1 - f.y0) * (x - f.x0) / (f.x1 - f.x0);
+  }
+  return sampleTrackY(track, x);
+}
+
+export function sampleTrackY(track: Track, x: number) {
+  const n = track.ys.length;
+  const f = (x - TRACK_X0) / TRACK_DX - track.i0;
+  if (f <= 0) return track.ys[0];
+  if (f >= n - 1) return track.ys[n - 1];
+  const i = Math.floor(f);
+  const u = f - i;
+  return track.ys[i] + (track.ys[i + 1] - track.ys[i]) * u;
+}
+
+// Fuel pickup `value` is a percentage of the tank, so cans stay equally useful for every tank size.
+export type Pickup = { kind: "coin" | "fuel"; x: number; y: number; value: number; taken?: boolean };
+
+type GroundChunk = { body: planck.Body; k0: number; k1: number };
+
+// A loose prop on the track. Boulders keep their outline (body-local) so the canvas draws the rock the physics uses.
+export type Obstacle = { kind: ObstacleKind; body: planck.Body; hw: number; hh: number; outline?: planck.Vec2[] };
+
+// A plank bridge hung over a "bridge" feature's pit. Planks are dynamic, so the deck sags under the car.
+export type Bridge = { x0: number; x1: number; anchor: planck.Body; planks: { body: planck.Body; halfLen: number }[] };
+
+// Wheels and their springs follow `VehicleRig.wheels`, rear to front.
+export type CarRig = {
+  chassis: planck.Body;
+  wheels: planck.Body[];
+  springs: planck.WheelJoint[];
+};
+
+function chassisShape(part: ChassisPart): planck.Shape {
+  if (part.shape === "polygon") return planck.Polygon(part.points.map(([x, y]) => Vec2(x, y)));
+  return part.x !== undefined || part.y !== undefined || part.angle !== undefined
+    ? planck.Box(part.hw, part.hh, Vec2(part.x ?? 0, part.y ?? 0), part.angle ?? 0)
+    : planck.Box(part.hw, part.hh);
+}
+
+function chassisFixtureDef(part: ChassisPart, chassisDensity: number): planck.FixtureOpt {
+  const density = part.density === undefined ? chassisDensity : chassisDensity * part.density;
+  return part.friction === undefined
+    ? { density, filterCategoryBits: CAR_CATEGORY }
+    : { density, friction: part.friction, filterCategoryBits: CAR_CATEGORY };
+}
+
+export class GameSimulation {
+  readonly seed: number;
+  readonly mapId: MapId;
+  readonly vehicleId: VehicleId;
+  readonly physics: VehiclePhysics;
+  readonly rig: VehicleRig;
+  readonly world: planck.World;
+  readonly car: CarRig;
+  readonly driver: Driver;
+  readonly state: HillClimbState;
+  readonly stage: StageConfig | null;
+  readonly weather: Weather | null;
+  readonly cargo: Cargo | null;
+  readonly damage: Damage;
+  depot: TrackFeature | null = null;  // cargo runs, once streamed in
+  pickups: Pickup[] = [];
+  bridges: Bridge[] = [];
+  obstacles: Obstacle[] = [];
+  bestM: number;
+  tick = 0;
+  throttle = 0; // smoothed pedal position the motors actually see
+
+  private readonly stream: TrackStream;
+  private chunks: GroundChunk[] = [];
+  private nextChunkK = 0;
+  private bridgedTo = -Infinity; // x0 of the last bridge built
+  private pickupCursor = { coin: 0, fuel: 0, stage: 0 };
+  private obstacleCursor = 0;
+  private grounded: number[];  // solid contacts per wheel
+  private headContacts = 0;
+  private crashFreeze = { t: 0, frozen: false };
+  private upsideCrash = 0;
+  private air = { active: false, t: 0, acc: 0, lastAngle: 0, flipCount: 0 };
+
+  constructor(opts: GameSimulationOptions) {
+    this.seed = opts.seed >>> 0;
+    this.mapId = opts.mapId;
+    this.vehicleId = opts.vehicleId;
+    this.bestM = opts.bestM ?? 0;
+    this.stage = opts.stageId ? STAGES[opts.stageId] : null;
+
+    const mConfig = MAPS[this.mapId];
+    this.stream = this.stage
+      ? createStageTrackStream(this.stage)
+      : createTrackStream(this.seed ^ mConfig.seedOffset, Boolean(mConfig.iceZones), opts.cargo ? CARGO_DEPOT_M : undefined);
+
+    // Stages keep the conditions they were authored for.
+    this.weather = !this.stage && mConfig.weather ? createWeather(this.seed ^ mConfig.seedOffset, mConfig.weather) : null;
+
+    const world = new planck.World(Vec2(0, mConfig.gravity));
+    this.world = world;
+
+    const spawnX = 0;
+    this.streamTerrain(spawnX);
+
+    const groundY0 = sampleTrackY(this.track, spawnX);
+    const vPhys = applyUpgrades(VEHICLES[this.vehicleId].physics, opts.upgrades ?? defaultUpgradeLevels());
+    this.physics = vPhys;
+    const rig = VEHICLES[this.vehicleId].rig;
+    this.rig = rig;
+    const spawnY = groundY0 + vPhys.spawnY;
+
+    const chassis = world.createDynamicBody({
+      position: Vec2(spawnX, spawnY),
+      angularDamping: vPhys.chassisAngularDamping,
+      linearDamping: vPhys.chassisLinearDamping,
+      bullet: true,
+    });
+    chassis.setUserData({ kind: "chassis" });
+
+    for (const part of rig.chassis) chassis.createFixture(chassisShape(part), chassisFixtureDef(part, vPhys.chassisDensity));
+
+    const wheelRadius = vPhys.wheelRadius;
+    const wheelY0 = groundY0 + wheelRadius + 0.2;
+    const wheels = rig.wheels.map((spec, index) => {
+      const wheel = world.createDynamicBody({ position: Vec2(spawnX + spec.x, wheelY0), angularDamping: vPhys.wheelAngularDamping, bullet: true });
+      wheel.setUserData({ kind: "wheel", index });
+      return wheel;
+    });
+
+    for (const wheel of wheels) wheel.createFixture(planck.Circle(wheelRadius), { density: vPhys.wheelDensity, friction: vPhys.wheelFriction, filterCategoryBits: WHEEL_CATEGORY });
+
+    const axis = Vec2(0, 1);
+    const common = {
+      collideConnected: false,
+      enableMotor: true,
+      motorSpeed: 0,
+      maxMotorTorque: vPhys.maxMotorTorque,
+      frequencyHz: vPhys.suspensionHz,
+      dampingRatio: vPhys.suspensionDamping,
+    };
+
+    const springs = wheels.map(wheel => world.createJoint(planck.WheelJoint(common as any, chassis, wheel, wheel.getPosition(), axis)) as planck.WheelJoint);
+
+    this.car = { chassis, wheels, springs };
+    this.grounded = wheels.map(() => 0);
+    this.driver = createDriver(world, chassis, rig);
+    this.cargo = opts.cargo && !this.stage ? createCargo(world, chassis, rig.cargo, x => sampleTrackY(this.track, x)) : null;
+    this.damage = createDamage(world, this.car, vPhys);
+
+    chassis.setAngle(0);
+    chassis.setAngularVelocity(0);
+
+    // A wheel resting on an obstacle has grip just like one on the ground.
+    const solid = (k: unknown) => k === "ground" || k === "obstacle";
+    // Index of the wheel in a wheel-on-solid contact, or -1.
+    const groundedWheel = (c: planck.Contact) => {
+      const a = c.getFixtureA().getBody().getUserData() as any;
+      const b = c.getFixtureB().getBody().getUserData() as any;
+      if (a?.kind === "wheel" && solid(b?.kind)) return a.index as number;
+      if (solid(a?.kind) && b?.kind === "wheel") return b.index as number;
+      return -1;
+    };
+    const headOnSolid = (c: planck.Contact) => {
+      const a = c.getFixtureA().getBody().getUserData() as any;
+      const b = c.getFixtureB().getBody().getUserData() as any;
+      return (a?.part === "head" && solid(b?.kind)) || (solid(a?.kind) && b?.part === "head");
+    };
+
+    world.on("begin-contact", (c: planck.Contact) => {
+      const i = groundedWheel(c);
+      if (i >= 0) this.grounded[i]++;
+      if (headOnSolid(c)) this.headContacts++;
+    });
+
+    world.on("end-contact", (c: planck.Contact) => {
+      const i = groundedWheel(c);
+      if (i >= 0) this.grounded[i] = Math.max(0, this.grounded[i] - 1);
+      if (headOnSolid(c)) this.headContacts = Math.max(0, this.headContacts - 1);
+    });
+
+    if (mConfig.iceZones || this.stage?.ice || this.weather?.config.snowGripLoss) {
+      // Per-contact friction: each chain edge knows its x, so ice needs no extra fixtures or seams.
+      // Settled snow scales whatever grip the ground has left.
+      const iceFriction = mConfig.groundFriction * ICE_FRICTION_MUL;
+      world.on("pre-solve", (c: planck.Contact) => {
+        const fa = c.getFixtureA(), fb = c.getFixtureB();
+        const onA = fa.getType() === "chain", onB = fb.getType() === "chain";
+        if (!onA && !onB) return;
+        const chunk = (onA ? fa : fb).getBody().getUserData() as { k0: number };
+        const edge = onA ? c.getChildIndexA() : c.getChildIndexB();
+        const other = onA ? fb : fa;
+        const x = trackX(chunk.k0 + edge) + TRACK_DX * 0.5;
+        const grip = this.weather?.reading.grip01 ?? 1;
+        if (isOnIce(this.track, x)) c.setFriction(Math.sqrt(other.getFriction() * iceFriction * grip));
+        else if (grip < 1) c.setFriction(Math.sqrt(other.getFriction() * mConfig.groundFriction * grip));
+        else c.resetFriction();
+      });
+    }
+
+    const fuelMax = vPhys.fuelCapacity;
+    this.state = {
+      runId: opts.runId ?? newRunId(this.seed), distanceM: 0, bestM: this.bestM, coins: 0, fuel: fuelMax, fuelMax, status: "IDLE",
+      rpm01: 0, boost01: 0, speedKmh: 0, airtimeS: 0, flips: 0, damage01: 0, toast: "", toastT: 0, timeS: 0,
+      weather: this.weather?.reading ?? null,
+      cargo: this.cargo ? { aboard: this.cargo.aboard, total: this.cargo.total, depotM: null } : null,
+    };
+  }
+
+  get track(): Track { return this.stream.track; }
+
+  // Solid contacts per wheel, rear to front.
+  get groundedWheels(): readonly number[] { return this.grounded; }
+
+  // True once nothing can change the result: a crash, a wreck, the finish, or a dry tank with the car
+  // at rest. A car coasting out of fuel can still roll into a can and drive on.
+  get over(): boolean {
+    const st = this.state.status;
+    return st === "CRASH" || st === "DESTROYED" || st === "FINISHED" || (st === "OUT_OF_FUEL" && this.crashFreeze.frozen);
+  }
+
+  // Advances the run by exactly one fixed DT step.
+  step(input: SimInput): SimEvent[] {
+    const events: SimEvent[] = [];
+    const s = this.state;
+    const vPhys = this.physics;
+    const car = this.car;
+    this.tick++;
+
+    const target = clamp(input.throttle, -1, 1);
+    const cur = this.throttle;
+    const k = 1 - Math.exp(-10 * DT);
+    this.throttle = cur + (target - cur) * k;
+
+    const throttle = this.throttle;
+
+    if (s.status === "IDLE" && Math.abs(throttle) > 0.02) s.status = "RUN";
+    if (s.status === "RUN" || s.status === "OUT_OF_FUEL") { s.timeS += DT; this.weather?.advance(DT); }
+
+    if (s.status === "RUN") {
+      const gas01 = Math.max(0, throttle);
+      const vx = Math.abs(car.chassis.getLinearVelocity().x);
+      s.fuel -= (vPhys.fuelDrainBase + vPhys.fuelDrainThrottle * gas01 + 0.012 * vx * gas01) * DT;
+      if (s.fuel <= 0) {
+        s.fuel = 0; s.status = "OUT_OF_FUEL";
+        events.push({ type: "outOfFuel" });
+      }
+    }
+
+    const drive = s.status === "OUT_OF_FUEL" ? Math.min(0, throttle) : throttle;
+    const boostActive = s.status === "RUN" && input.boost && s.boost01 > 0.03;
+    if (boostActive) s.boost01 = Math.max(0, s.boost01 - 0.75 * DT);
+
+    const forwardMax = vPhys.maxMotorSpeed;
+    const reverseMax = 10;
+    const axles = this.rig.wheels.map(w => w.axle);
+    // A torn-off wheel is no longer part of the car, wherever it rolls.
+    const attached = (i: number) => !this.damage.detached[i];
+    const rearGrounded = this.grounded.some((n, i) => n > 0 && axles[i] === "rear" && attached(i));
+    const frontGrounded = this.grounded.some((n, i) => n > 0 && axles[i] === "front" && attached(i));
+    const groundedAny = rearGrounded || frontGrounded;
+
+    // The driven axle: the front one on FWD, otherwise the rear (AWD adds a share to the front below).
+    const layout = this.rig.drivetrain.layout;
+    const drivenAxle = layout === "FWD" ? "front" : "rear";
+    const driven = car.wheels.filter((_, i) => axles[i] === drivenAxle && attached(i));
+    const drivenDown = this.grounded.filter((n, i) => n > 0 && axles[i] === drivenAxle && attached(i)).length;
+
+    const pitch = car.chassis.getAngle();
+    const pitchAbs = Math.abs(wrapAngle(pitch));
+    const pitchCut = clamp01(1 - Math.max(0, pitchAbs - 1.35) / 0.65);
+    // Full traction with every driven wheel down, a little with none.
+    const traction = 0.35 + 0.65 * (drivenDown / Math.max(1, driven.length));
+
+    let motorSpeed = 0, rearTorque = 0, brakeTorque = 0;
+
+    if (s.status === "IDLE") { rearTorque = 10; }
+
+    if (s.status === "RUN") {
+      if (drive > 0.02) {
+        const speedMul = boostActive ? 1.15 : 1.0;
+        motorSpeed = -(throttle * forwardMax * speedMul);
+        const omega = driven.reduce((sum, w) => sum + Math.abs(w.getAngularVelocity()), 0) / driven.length;
+        const omega01 = clamp01(omega / forwardMax);
+        const powerDrop = 1 - 0.62 * omega01;
+        const max = vPhys.maxMotorTorque * this.damage.torqueMul();
+        const base = max * 0.35;
+        const boostMul = boostActive ? 1.45 : 1.0;
+        rearTorque = (base + (max - base) * throttle) * powerDrop * traction * pitchCut * boostMul;
+      } else if (drive < -0.02) {
+        const vx = car.chassis.getLinearVelocity().x;
+        const brake = clamp01(-drive);
+        const endoCut = clamp01(1 - Math.max(0, (-pitch) - 0.55) / 0.45);
+        brakeTorque = (vPhys.brakeMaxTorque * brake) * (0.55 + 0.45 * endoCut);
+
+        if (vx > 0.8) { motorSpeed = 0; rearTorque = 0; }
+        else { motorSpeed = brake * reverseMax; rearTorque = 36 * brake * traction; }
+      } else { rearTorque = 7; }
+    }
+
+    if (s.status === "OUT_OF_FUEL" && drive < -0.02) {
+      const vx = car.chassis.getLinearVelocity().x;
+      const brake = clamp01(-drive);
+      const endoCut = clamp01(1 - Math.max(0, (-pitch) - 0.55) / 0.45);
+      brakeTorque = (vPhys.brakeMaxTorque * brake) * (0.55 + 0.45 * endoCut);
+      if (vx <= 0.8) { motorSpeed = brake * reverseMax; rearTorque = 28 * brake * traction; }
+    }
+
+    const dt = this.rig.drivetrain;
+    const awd = dt.layout === "AWD" && s.status === "RUN" && drive > 0.02 ? dt : null;
+    const frontShareTorque = awd
+      ? vPhys.maxMotorTorque * clamp01(drive) * (frontGrounded ? awd.frontShare : awd.frontShareAir) * pitchCut
+      : 0;
+    const driveTorque = awd ? rearTorque * awd.rearShare : rearTorque;
+
+    // The front axle spins a touch slower under AWD so the axles don't fight each other.
+    const rearDriven = dt.layout !== "FWD";
+    const rearCount = axles.filter((a, i) => a === "rear" && attached(i)).length;
+    const frontCount = axles.filter((a, i) => a === "front" && attached(i)).length;
+    car.springs.forEach((spring, i) => {
+      if (!attached(i)) return;
+      if (axles[i] === "rear") {
+        spring.setMotorSpeed(rearDriven ? motorSpeed : 0);
+        spring.setMaxMotorTorque(((rearDriven ? driveTorque : 0) + brakeTorque) / rearCount);
+      } else {
+        spring.setMotorSpeed(rearDriven ? (awd ? motorSpeed * 0.98 : 0) : motorSpeed);
+        spring.setMaxMotorTorque(((rearDriven ? frontShareTorque : driveTorque) + brakeTorque * 0.8) / frontCount);
+      }
+    });
+
+    if (s.status === "RUN" && groundedAny) {
+      const av = car.chassis.getAngularVelocity();
+      const vx = car.chassis.getLinearVelocity().x;
+      const bothDown = rearGrounded && frontGrounded;
+      const pedalEase = clamp01(1 - Math.abs(throttle));
+
+      for (const st of this.rig.stabilisers) {
+        const speedEase = clamp01((st.fadeSpeed - Math.abs(vx)) / st.fadeSpeed);
+        const assist = (st.pedalFade ? pedalEase : 1) * speedEase * (bothDown ? 1 : st.oneWheel);
+        car.chassis.applyTorque(clamp((-st.pitchGain * pitch) - (st.rateGain * av), -st.maxTorque, st.maxTorque) * assist);
+      }
+
+      const maxAV = this.rig.maxSpinRate;
+      if (Math.abs(av) > maxAV) car.chassis.setAngularVelocity(Math.sign(av) * maxAV);
+    }
+
+    if ((s.status === "RUN" || s.status === "OUT_OF_FUEL") && !groundedAny) {
+      car.chassis.applyTorque(30 * throttle);
+      s.boost01 = Math.min(1, s.boost01 + 0.05 * DT);
+
+      // Gusts only catch a car in the air; on the ground the tyres hold it.
+      const gust = this.weather ? this.weather.reading.wind * (this.weather.config.windAccel ?? 0) : 0;
+      if (gust !== 0) {
+        const mass = car.wheels.reduce((m, w) => m + w.getMass(), car.chassis.getMass());
+        car.chassis.applyForceToCenter(Vec2(mass * gust, 0), true);
+      }
+    }
+
+    this.world.step(DT, VEL_ITERS, POS_ITERS);
+    (this.world as any).clearForces?.();
+
+    const x = car.chassis.getPosition().x;
+    this.streamTerrain(x);
+    s.distanceM = Math.max(s.distanceM, x);
+    s.bestM = this.bestM;
+
+    const wrecking = s.status === "RUN" || s.status === "OUT_OF_FUEL";
+    const { hit, lost: wheelsLost } = this.damage.settle(wrecking);
+    s.damage01 = this.damage.hull01;
+    if (hit >= 0.08) { s.toast = `DAMAGE ${Math.round(s.damage01 * 100)}%`; s.toastT = 1.0; }
+    for (const index of wheelsLost) {
+      s.toast = "WHEEL LOST!"; s.toastT = 1.2;
+      events.push({ type: "wheelLost", index });
+    }
+    const axleGone = car.wheels.every((_, i) => axles[i] !== drivenAxle || !attached(i));
+    if (wrecking && (this.damage.hull01 >= 1 || axleGone)) {
+      s.status = "DESTROYED"; this.throttle = 0;
+      s.toast = "WRECKED!"; s.toastT = 1.5;
+      this.crashFreeze = { t: 0, frozen: false }; this.upsideCrash = 0;
+      events.push({ type: "destroyed" });
+    }
+
+    if (this.cargo && s.cargo && (s.status === "RUN" || s.status === "OUT_OF_FUEL")) {
+      const lost = this.cargo.update(DT);
+      if (lost > 0) {
+        s.cargo.aboard = this.cargo.aboard;
+        s.toast = this.cargo.aboard > 0 ? `CARGO LOST - ${this.cargo.aboard} LEFT` : "ALL CARGO LOST"; s.toastT = 1.2;
+        events.push({ type: "cargoLost", aboard: this.cargo.aboard });
+      }
+    }
+
+    // A cargo run ends halfway into the depot yard, whatever is left aboard.
+    const finishX = this.stage?.finishX ?? (this.depot ? (this.depot.x0 + this.depot.x1) / 2 : Infinity);
+    if (s.status === "RUN" && x >= finishX) {
+      s.status = "FINISHED"; this.throttle = 0;
+      s.toast = s.cargo ? `DELIVERED ${s.cargo.aboard}/${s.cargo.total}` : "FINISH!"; s.toastT = 1.5;
+      this.crashFreeze = { t: 0, frozen: false };
+      events.push({ type: "finish" });
+      if (s.cargo) events.push({ type: "delivered", crates: s.cargo.aboard });
+    }
+
+    // The engine turns with the first driven wheel still on the car; with none left it has nothing to turn.
+    const engineWheel = car.wheels.find((_, i) => axles[i] === drivenAxle && attached(i));
+    const w = engineWheel ? Math.abs(engineWheel.getAngularVelocity()) : 0;
+    s.rpm01 = Math.max(0, Math.min(1, w / forwardMax));
+
+    const v = car.chassis.getLinearVelocity();
+    s.speedKmh = Math.hypot(v.x, v.y) * 3.6;
+
+    if (s.toastT > 0) { s.toastT = Math.max(0, s.toastT - DT); if (s.toastT === 0) s.toast = ""; }
+
+    if ((s.status === "RUN" || s.status === "OUT_OF_FUEL") && !groundedAny) {
+      const a = this.air;
+      if (!a.active) { a.active = true; a.t = 0; a.acc = 0; a.flipCount = 0; a.lastAngle = car.chassis.getAngle(); }
+      a.t += DT; s.airtimeS = a.t;
+
+      const ang = car.chassis.getAngle();
+      let d = ang - a.lastAngle;
+      while (d > Math.PI) d -= Math.PI * 2;
+      while (d < -Math.PI) d += Math.PI * 2;
+      a.acc += d; a.lastAngle = ang;
+
+      const flipsNow = Math.floor(Math.abs(a.acc) / (Math.PI * 2));
+      if (flipsNow > a.flipCount) {
+        const gained = flipsNow - a.flipCount;
+        a.flipCount = flipsNow; s.flips += gained;
+        const coinBonus = 5 * gained; const fuelBonus = 3 * gained;
+        s.coins += coinBonus; s.fuel = Math.min(s.fuelMax, s.fuel + s.fuelMax * fuelBonus / 100);
+        s.toast = `FLIP +${coinBonus} - FUEL +${fuelBonus}%`; s.toastT = 1.35;
+        s.boost01 = Math.min(1, s.boost01 + 0.18 * gained);
+        events.push({ type: "flip", gained });
+      }
+    } else { this.air.active = false; s.airtimeS = 0; }
+
+    const head = this.driver.parts.head;
+    const points = [car.chassis.getPosition(), ...car.wheels.filter((_, i) => attached(i)).map(w => w.getPosition()), head.getPosition()];
+
+    for (const p of this.pickups) {
+      if (p.taken) continue;
+      const r = p.kind === "fuel" ? 1.85 : 1.35;
+      const r2 = r * r;
+      let hit = false;
+      for (const pos of points) {
+        const dx = p.x - pos.x, dy = p.y - pos.y;
+        if (dx * dx + dy * dy < r2) { hit = true; break; }
+      }
+      if (!hit) continue;
+      p.taken = true;
+      events.push({ type: "pickup", kind: p.kind, value: p.value });
+
+      if (p.kind === "coin") {
+        s.coins += p.value; s.toast = `+${p.value} COIN`; s.toastT = 0.9;
+        s.boost01 = Math.min(1, s.boost01 + 0.015 * p.value);
+      } else if (p.kind === "fuel") {
+        const before = s.fuel; s.fuel = Math.min(s.fuelMax, s.fuel + s.fuelMax * p.value / 100);
+        s.toast = `FUEL +${p.value}%`; s.toastT = 1.1;
+        s.boost01 = Math.min(1, s.boost01 + 0.10);
+        if (s.status === "OUT_OF_FUEL" && before <= 0 && s.fuel > 0.5) {
+          s.status = "RUN"; this.crashFreeze = { t: 0, frozen: false };
+          car.chassis.setAwake(true);
+          car.chassis.setLinearDamping(vPhys.chassisLinearDamping); car.chassis.setAngularDamping(vPhys.chassisAngularDamping);
+          for (const w of car.wheels) { w.setAwake(true); w.setAngularDamping(vPhys.wheelAngularDamping); }
+          for (const b of Object.values(this.driver.parts)) b.setAwake(true);
+          this.cargo?.setAwake(true);
+          events.push({ type: "refuel" });
+        }
+      }
+    }
+
+    if (s.status === "RUN") {
+      const headWorld = head.getPosition();
+      const gyHead = this.groundY(headWorld.x);
+      const pitchNow = car.chassis.getAngle();
+      const pitchNorm = wrapAngle(pitchNow);
+      const upside = Math.abs(pitchNorm) > 2.2;
+      const posNow = car.chassis.getPosition();
+      const gyBody = this.groundY(posNow.x);
+      const nearGround = posNow.y < gyBody + 0.85;
+      const rules = this.rig.crash;
+      // A low body can touch or hover near the terrain upside down while no wheel is grounded,
+      // which the shared rule below (it needs `groundedAny`) never sees.
+      const bodyUpsideNearGround = Boolean(rules.upsideBodyContact) && upside && nearGround;
+
+      // A tall body can rest on its roof, or balance on roof and wheels, clear of the head check.
+      let roofUpsideNearGround = false;
+      if (rules.roof && upside) {
+        const roof = rules.roof;
+        const roofWorld = car.chassis.getWorldPoint(Vec2(roof.x, roof.y));
+        const roofGroundY = this.groundY(roofWorld.x);
+        const roofTouchingTerrain = roofWorld.y < roofGroundY + roof.clearance;
+        const headTouchingTerrain = headWorld.y < gyHead + roof.headClearance;
+        const wheelTouchingTerrain = groundedAny || car.wheels.some(w => {
+          const p = w.getPosition();
+          return p.y - this.groundY(p.x) - vPhys.wheelRadius < 0.12;
+        });
+        const lowEnoughToBeRestingUpsideDown = posNow.y < gyBody + roof.restHeight;
+        const invertedContact = roofTouchingTerrain || headTouchingTerrain || (lowEnoughToBeRestingUpsideDown && wheelTouchingTerrain);
+        this.upsideCrash = invertedContact ? this.upsideCrash + DT : 0;
+        roofUpsideNearGround = this.upsideCrash > roof.holdS;
+      } else if (rules.roof) {
+        this.upsideCrash = 0;
+      }
+
+      // Over a gap the chassis stays above the line between the rims unless the car has dropped in,
+      // and nothing drives back out of a pit.
+      const overGap = this.track.features.some(f => f.kind === "gap" && posNow.x > f.x0 && posNow.x < f.x1);
+      const fellInGap = overGap && posNow.y < sampleSurfaceY(this.track, posNow.x) - 0.2;
+
+      // The seated head is a sensor: touching the ground or a prop is a hit. A landing hard enough to
+      // tear the seat out throws the driver.
+      const headStruck = this.headContacts > 0;
+      const thrown = this.driver.seatOverloaded(1 / DT);
+
+      if (fellInGap || headStruck || thrown || headWorld.y < gyHead + this.rig.head.r || (upside && nearGround && groundedAny) || bodyUpsideNearGround || roofUpsideNearGround) {
+        s.status = "CRASH"; this.throttle = 0;
+        this.driver.release();
+        this.crashFreeze = { t: 0, frozen: false }; this.upsideCrash = 0; this.air = { active: false, t: 0, acc: 0, lastAngle: 0, flipCount: 0 }; s.airtimeS = 0;
+        events.push({ type: "crash" });
+      }
+    }
+
+    const wrecked = s.status === "CRASH" || s.status === "DESTROYED";
+    if (wrecked || s.status === "FINISHED" || (s.status === "OUT_OF_FUEL" && s.fuel <= 0.01)) {
+      const cf = this.crashFreeze;
+      if (!cf.frozen) {
+        const lv = car.chassis.getLinearVelocity();
+        const sp = Math.hypot(lv.x, lv.y);
+        const settleT = wrecked ? 0.65 : s.status === "FINISHED" ? 0.8 : 1.35;
+        const canFreeze = wrecked || sp < 0.35;
+        cf.t = canFreeze ? (cf.t + DT) : 0;
+
+        car.chassis.setLinearDamping(2.0); car.chassis.setAngularDamping(3.2);
+        for (const w of car.wheels) w.setAngularDamping(2.0);
+
+        if (cf.t > settleT) {
+          car.springs.forEach((spring, i) => { if (attached(i)) { spring.setMotorSpeed(0); spring.setMaxMotorTorque(0); } });
+          car.chassis.setLinearVelocity(Vec2(0, 0)); car.chassis.setAngularVelocity(0);
+          for (const w of car.wheels) w.setAngularVelocity(0);
+          car.chassis.setAwake(false);
+          for (const w of car.wheels) w.setAwake(false);
+          // A seated driver is jointed to the chassis and would wake it straight back up.
+          if (this.driver.seated) for (const b of Object.values(this.driver.parts)) b.setAwake(false);
+          // So is the trailer, and crates resting on the car keep touching it.
+          this.cargo?.setAwake(false);
+          cf.frozen = true;
+        }
+      }
+    }
+
+    return events;
+  }
+
+  // One static body per chunk. Ghost vertices from the neighbouring samples keep wheels from catching on chunk seams.
+  private createGroundChunk(k0: number): GroundChunk {
+    const track = this.track;
+    const k1 = k0 + CHUNK_SAMPLES;
+    const yAt = (k: number) => track.ys[k - track.i0];
+
+    const pts: planck.Vec2[] = [];
+    for (let k = k0; k <= k1; k++) pts.push(Vec2(trackX(k), yAt(k)));
+    const chain = planck.Chain(pts, false);
+    if (k0 - 1 >= track.i0) chain.setPrevVertex(Vec2(trackX(k0 - 1), yAt(k0 - 1)));
+    chain.setNextVertex(Vec2(trackX(k1 + 1), yAt(k1 + 1)));
+
+    const body = this.world.createBody();
+    body.setUserData({ kind: "ground", k0 });
+    body.createFixture(chain, { friction: MAPS[this.mapId].groundFriction, filterGroupIndex: TERRAIN_GROUP });
+    body.createFixture(planck.Edge(Vec2(trackX(k0), -18), Vec2(trackX(k1), -18)), { friction: 0.9 });
+    return { body, k0, k1 };
+  }
+
+  // Seeded by slot like pickups. A slot may stay empty, and set pieces are kept clear. Stages have none.
+  private spawnObstaclesTo(xMax: number) {
+    const specs = MAPS[this.mapId].obstacles;
+    if (this.stage || specs.length === 0) return;
+    const total = specs.reduce((t, o) => t + o.weight, 0);
+
+    while (OBSTACLE_X0 + this.obstacleCursor * OBSTACLE_DX <= xMax) {
+      const slot = this.obstacleCursor++;
+      const prnd = mulberry32((this.seed ^ 0x2545f491 ^ Math.imul(slot + 1, 0x27d4eb2f)) >>> 0);
+      const x = OBSTACLE_X0 + slot * OBSTACLE_DX + (prnd() * 2 - 1) * 8;
+      if (prnd() < 0.4) continue;
+      let r = prnd() * total, spec = specs[specs.length - 1];
+      for (const o of specs) if ((r -= o.weight) < 0) { spec = o; break; }
+      if (this.track.features.some(f => x > f.x0 - 6 && x < f.x1 + 6)) continue;
+      const stack = spec.kind === "crate" && prnd() < 0.35 ? 2 : 1;
+      for (let i = 0; i < stack; i++) this.obstacles.push(this.createObstacle(spec, x, i, prnd));
+    }
+  }
+
+  // Placed at rest on the local slope and asleep, so props ahead cost nothing until something touches them.
+  private createObstacle(spec: ObstacleSpec, x: number, level: number, prnd: () => number): Obstacle {
+    const { hw, hh } = OBSTACLE_SIZE[spec.kind];
+    const track = this.track;
+    const angle = Math.atan2(sampleTrackY(track, x + 0.3) - sampleTrackY(track, x - 0.3), 0.6);
+    const lift = hh * (2 * level + 1) + 0.02;
+    const body = this.world.createDynamicBody({
+      position: Vec2(x - Math.sin(angle) * lift, sampleTrackY(track, x) + Math.cos(angle) * lift),
+      angle,
+      awake: false,
+    });
+    body.setUserData({ kind: "obstacle" });
+
+    let outline: planck.Vec2[] | undefined;
+    let shape: planck.Shape;
+    if (spec.kind === "log") shape = planck.Circle(hw);
+    else if (spec.kind === "boulder") {
+      outline = Array.from({ length: 7 }, (_, i) => {
+        const a = (i / 7) * Math.PI * 2 + (prnd() - 0.5) * 0.4, rr = hw * (0.82 + prnd() * 0.22);
+        return Vec2(Math.cos(a) * rr, Math.sin(a) * rr);
+      });
+      shape = planck.Polygon(outline);
+    } else shape = planck.Box(hw, hh);
+    body.createFixture(shape, { density: spec.density, friction: 0.5, restitution: 0.05 });
+    return { kind: spec.kind, body, hw, hh, outline };
+  }
+
+  // Planks on revolute joints, pinned to both rims. They start on a parabola close to where they will
+  // hang, so the deck does not drop into place when it streams in.
+  private createBridge(f: TrackFeature): Bridge {
+    const span = f.x1 - f.x0;
+    const n = Math.max(4, Math.round(span / BRIDGE_PLANK_LEN));
+    const deckAt = (i: number) => {
+      const u = i / n;
+      return Vec2(f.x0 + span * u, f.y0 + (f.y1 - f.y0) * u - 4 * BRIDGE_SAG * span * u * (1 - u));
+    };
+
+    const anchor = this.world.createBody();
+    const friction = MAPS[this.mapId].groundFriction;
+    const planks: Bridge["planks"] = [];
+    let prev = anchor;
+    for (let i = 0; i < n; i++) {
+      const a = deckAt(i), b = deckAt(i + 1);
+      const halfLen = Vec2.distance(a, b) / 2;
+      const body = this.world.createDynamicBody({
+        position: Vec2((a.x + b.x) / 2, (a.y + b.y) / 2),
+        angle: Math.atan2(b.y - a.y, b.x - a.x),
+        angularDamping: 0.6,
+      });
+      body.setUserData({ kind: "ground" });
+      // The top face sits on the joint line, level with the rims.
+      body.createFixture(planck.Box(halfLen, 0.09, Vec2(0, -0.09), 0), { density: 30, friction, filterGroupIndex: TERRAIN_GROUP });
+      this.world.createJoint(planck.RevoluteJoint({}, prev, body, a));
+      planks.push({ body, halfLen });
+      prev = body;
+    }
+    this.world.createJoint(planck.RevoluteJoint({}, prev, anchor, deckAt(n)));
+    return { x0: f.x0, x1: f.x1, anchor, planks };
+  }
+
+  // Ground under x for the crash rules: the bridge deck where there is one, the terrain elsewhere.
+  private groundY(x: number) {
+    for (const b of this.bridges) {
+      if (x < b.x0 || x > b.x1) continue;
+      for (const p of b.planks) {
+        const l = p.body.getWorldPoint(Vec2(-p.halfLen, 0)), r = p.body.getWorldPoint(Vec2(p.halfLen, 0));
+        if (x >= l.x && x <= r.x) return l.y + (r.y - l.y) * (x - l.x) / Math.max(1e-6, r.x - l.x);
+      }
+    }
+    return sampleTrackY(this.track, x);
+  }
+
+  // Pickup groups are seeded by index, so a group looks the same however late it gets streamed in.
+  private spawnPickupsTo(xMax: number) {
+    const track = this.track;
+    const cur = this.pickupCursor;
+
+    if (this.stage) {
+      const list = this.stage.pickups;
+      while (cur.stage < list.length && list[cur.stage].x <= xMax) {
+        const p = list[cur.stage++];
+        const value = p.value ?? (p.kind === "fuel" ? 35 : 1);
+        this.pickups.push({ kind: p.kind, x: p.x, y: sampleSurfaceY(track, p.x) + 2.05 + (p.lift ?? 0), value });
+      }
+      return;
+    }
+
+    while (COIN_GROUP_X0 + cur.coin * COIN_GROUP_DX <= xMax) {
+      const prnd = mulberry32((this.seed ^ 0x9e3779b9 ^ Math.imul(cur.coin + 1, 0x85ebca6b)) >>> 0);
+      const jitter = (prnd() * 2 - 1) * 4;
+      const x = COIN_GROUP_X0 + cur.coin * COIN_GROUP_DX + jitter;
+      for (let j = 0; j < 3; j++) {
+        this.pickups.push({ kind: "coin", x: x + 2.0 * j, y: sampleSurfaceY(track, x + 2.0 * j) + 2.05, value: 1 });
+      }
+      cur.coin++;
+    }
+
+    while (FUEL_X0 + cur.fuel * FUEL_DX <= xMax) {
+      const prnd = mulberry32((this.seed ^ 0x7f4a7c15 ^ Math.imul(cur.fuel + 1, 0xc2b2ae35)) >>> 0);
+      const i = FUEL_X0 + cur.fuel * FUEL_DX;
+      const jitter = (prnd() * 2 - 1) * 7;
+      const x = i + jitter;
+      const arch = 0.25 * Math.sin((i / FUEL_DX) * Math.PI);
+      this.pickups.push({ kind: "fuel", x, y: sampleSurfaceY(track, x) + 2.05 + arch, value: 35 });
+      cur.fuel++;
+    }
+  }
+
+  // Keeps ground, samples and pickups in a window around `carX`. Call outside world.step().
+  private streamTerrain(carX: number) {
+    const chunks = this.chunks;
+
+    const xAhead = carX + STREAM_AHEAD;
+    while (trackX(this.nextChunkK) < xAhead) {
+      const k0 = this.nextChunkK;
+      this.stream.extendTo(trackX(k0 + CHUNK_SAMPLES + 1));
+      chunks.push(this.createGroundChunk(k0));
+      this.nextChunkK = k0 + CHUNK_SAMPLES;
+    }
+    for (const f of this.track.features) {
+      if (f.kind !== "bridge" || f.x0 <= this.bridgedTo || f.x1 >= trackX(this.nextChunkK)) continue;
+      this.bridges.push(this.createBridge(f));
+      this.bridgedTo = f.x0;
+    }
+    if (this.cargo && !this.depot) {
+      this.depot = this.track.features.find(f => f.kind === "depot") ?? null;
+      if (this.depot) this.state.cargo!.depotM = (this.depot.x0 + this.depot.x1) / 2;
+    }
+    this.spawnPickupsTo(trackX(this.nextChunkK) - 8);
+    this.spawnObstaclesTo(trackX(this.nextChunkK) - 16);
+
+    const xBehind = carX - STREAM_BEHIND;
+    while (chunks.length > 1 && trackX(chunks[0].k1) < xBehind) {
+      this.world.destroyBody(chunks.shift()!.body);
+    }
+    while (this.bridges.length > 0 && this.bridges[0].x1 < xBehind) {
+      const b = this.bridges.shift()!;
+      for (const p of b.planks) this.world.destroyBody(p.body);
+      this.world.destroyBody(b.anchor);
+    }
+    this.stream.trimBefore(Math.min(xBehind, trackX(chunks[0].k0 - 1)));
+    // Obstacles are culled by where they are now, since the car may have pushed them along.
+    if (this.obstacles.some((o) => o.body.getPosition().x < xBehind)) {
+      this.obstacles = this.obstacles.filter((o) => {
+        if (o.body.getPosition().x >= xBehind) return true;
+        this.world.destroyBody(o.body);
+        return false;
+      });
+    }
+    this.cargo?.dropBehind(xBehind);
+    if (this.pickups.some((p) => p.x < xBehind)) {
+      this.pickups = this.pickups.filter((p) => p.x >= xBehind);
+    }
+  }
+}
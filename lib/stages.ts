@@ -0,0 +1,172 @@
+import type { MapId } from "./maps";
+import type { IceZone } from "./simulation";
+import type { VehicleId } from "./vehicles";
+
+// Handcrafted stages: authored terrain, pickups and a finish line, played in order. The simulation
+// builds the ground from `points` instead of the seeded generator (see createStageTrackStream).
+
+export type StageId = "first-climb" | "meadow-rollers" | "dune-steps" | "glacier-pass" | "crater-hops" | "summit";
+
+// Fuel cans default to the procedural value; `lift` raises a pickup above the usual 2 m over the ground.
+export type StagePickup = { kind: "coin" | "fuel"; x: number; value?: number; lift?: number };
+
+export interface StageGoals {
+  timeS: number;     // finish within this many seconds of driving
+  coins: number;     // collect at least this many coins
+  fuelPct: number;   // cross the line with at least this much fuel left
+}
+
+export interface StageConfig {
+  id: StageId;
+  name: string;
+  mapId: MapId;          // sky, gravity and ground friction; the map's random terrain is not used
+  vehicleId: VehicleId;  // fixed so time goals mean the same for everyone; the player's upgrades apply
+  seed: number;          // scenery and run ids only
+  points: [number, number][];  // terrain control points [x, y] in metres, x ascending, first at the spawn (0)
+  ice?: IceZone[];
+  pickups: StagePickup[];       // x ascending
+  finishX: number;
+  goals: StageGoals;
+}
+
+// A row of `n` coins 2 m apart, like the procedural coin groups.
+function coins(x: number, n = 3, lift?: number): StagePickup[] {
+  return Array.from({ length: n }, (_, i) => ({ kind: "coin" as const, x: x + 2 * i, lift }));
+}
+
+function fuel(x: number, value?: number): StagePickup {
+  return { kind: "fuel", x, value };
+}
+
+// Play order. Stage ids are stored in progress: append only.
+export const STAGE_ORDER: StageId[] = ["first-climb", "meadow-rollers", "dune-steps", "glacier-pass", "crater-hops", "summit"];
+
+export const STAGES: Record<StageId, StageConfig> = {
+  "first-climb": {
+    id: "first-climb",
+    name: "First Climb",
+    mapId: "hills",
+    vehicleId: "jeep",
+    seed: 101,
+    points: [[0, 1], [25, 1], [50, 3.5], [70, 3], [95, 6], [115, 5.5], [140, 8], [165, 7.5], [190, 7.5], [240, 7.5]],
+    pickups: [...coins(20), ...coins(60), ...coins(105), fuel(128), ...coins(150), ...coins(178)],
+    finishX: 200,
+    goals: { timeS: 26, coins: 15, fuelPct: 85 },
+  },
+  "meadow-rollers": {
+    id: "meadow-rollers",
+    name: "Meadow Rollers",
+    mapId: "hills",
+    vehicleId: "bicycle",
+    seed: 202,
+    points: [[0, 1], [20, 1], [35, 2.5], [50, 1.2], [65, 3.2], [80, 1.8], [98, 4.2], [116, 2.6], [136, 5], [156, 3.2], [178, 5.6], [200, 4], [225, 4.5], [280, 4.5]],
+    pickups: [...coins(33, 3, 0.5), ...coins(63, 3, 0.5), ...coins(96, 3, 0.8), fuel(118), ...coins(134, 3, 0.8), ...coins(176, 3, 1), ...coins(215)],
+    finishX: 240,
+    goals: { timeS: 31, coins: 15, fuelPct: 82 },
+  },
+  "dune-steps": {
+    id: "dune-steps",
+    name: "Dune Steps",
+    mapId: "desert",
+    vehicleId: "jeep",
+    seed: 303,
+    points: [[0, 1], [20, 1], [40, 4], [55, 4], [75, 7], [90, 7], [110, 4.5], [130, 4.5], [150, 8], [168, 8], [190, 11], [210, 11], [240, 8], [270, 8], [330, 8]],
+    pickups: [...coins(44), ...coins(78), fuel(115), ...coins(152), ...coins(192), fuel(225), ...coins(250)],
+    finishX: 290,
+    goals: { timeS: 37, coins: 15, fuelPct: 85 },
+  },
+  "glacier-pass": {
+    id: "glacier-pass",
+    name: "Glacier Pass",
+    mapId: "arctic",
+    vehicleId: "jeep",
+    seed: 404,
+    points: [[0, 1], [25, 1], [45, 2.5], [70, 2.5], [95, 5], [115, 5], [140, 3], [165, 3], [190, 6], [210, 6], [240, 8], [265, 8], [320, 8]],
+    ice: [{ x0: 55, x1: 72 }, { x0: 118, x1: 150 }, { x0: 200, x1: 215 }],
+    pickups: [...coins(30), ...coins(58), ...coins(120), fuel(150), ...coins(172), ...coins(218), ...coins(255)],
+    finishX: 275,
+    goals: { timeS: 35, coins: 18, fuelPct: 78 },
+  },
+  "crater-hops": {
+    id: "crater-hops",
+    name: "Crater Hops",
+    mapId: "moon",
+    vehicleId: "bicycle",
+    seed: 505,
+    points: [[0, 1], [25, 1], [45, 3.5], [55, 3.6], [75, 1.2], [95, 1.2], [115, 4.2], [125, 4.3], [145, 1.5], [165, 1.5], [185, 5], [195, 5.1], [215, 2], [240, 2], [300, 2]],
+    pickups: [...coins(56, 3, 2), ...coins(126, 3, 2.5), fuel(150), ...coins(196, 3, 3), ...coins(225)],
+    finishX: 255,
+    goals: { timeS: 35, coins: 9, fuelPct: 84 },
+  },
+  summit: {
+    id: "summit",
+    name: "The Summit",
+    mapId: "hills",
+    vehicleId: "jeep",
+    seed: 606,
+    points: [[0, 1], [20, 1], [45, 4.5], [60, 4], [85, 8], [100, 7.5], [128, 12], [145, 11], [172, 15], [190, 14], [220, 18.5], [238, 18], [268, 22], [290, 21.5], [320, 24], [400, 24]],
+    pickups: [...coins(30), ...coins(70), fuel(98), ...coins(120), ...coins(160), fuel(192), ...coins(212), ...coins(255), ...coins(300)],
+    finishX: 340,
+    goals: { timeS: 43, coins: 21, fuelPct: 74 },
+  },
+};
+
+// ─── Results and progress ───────────────────────────────────────────────────
+
+export type StageRun = { timeS: number; coins: number; fuel01: number };
+
+export type StageStars = 0 | 1 | 2 | 3;
+
+// Finishing earns one star; each goal met counts towards up to three.
+export function stageStars(stage: StageConfig, run: StageRun): StageStars {
+  const met = stageGoalsMet(stage, run);
+  return Math.max(1, Math.min(3, met.filter(Boolean).length)) as StageStars;
+}
+
+export function stageGoalsMet(stage: StageConfig, run: StageRun): [time: boolean, coins: boolean, fuel: boolean] {
+  return [run.timeS <= stage.goals.timeS, run.coins >= stage.goals.coins, run.fuel01 * 100 >= stage.goals.fuelPct];
+}
+
+const STAGES_KEY = "jhc_stages_v1";
+
+export interface StageRecord {
+  stars: StageStars;
+  bestTimeS: number | null;
+}
+
+export type StageProgress = Partial<Record<StageId, StageRecord>>;
+
+export function loadStageProgress(): StageProgress {
+  if (typeof window === "undefined") return {};
+  try {
+    const parsed = JSON.parse(window.localStorage.getItem(STAGES_KEY) ?? "{}");
+    return parsed && typeof parsed === "object" && !Array.isArray(parsed) ? parsed : {};
+  } catch { return {}; }
+}
+
+// The first stage is always open; every other one opens once the stage before it is finished.
+export function isStageUnlocked(progress: StageProgress, id: StageId): boolean {
+  const i = STAGE_ORDER.indexOf(id);
+  return i === 0 || (progress[STAGE_ORDER[i - 1]]?.stars ?? 0) > 0;
+}
+
+export function nextStage(id: StageId): StageId | null {
+  return STAGE_ORDER[STAGE_ORDER.indexOf(id) + 1] ?? null;
+}
+
+// Keeps the most stars and the fastest finish of a stage. Returns what this run earned.
+export function recordStageFinish(id: StageId, run: StageRun): { stars: StageStars; newBestTime: boolean; progress: StageProgress } {
+  const stars = stageStars(STAGES[id], run);
+  const progress = loadStageProgress();
+  const prev = progress[id];
+  const newBestTime = prev?.bestTimeS == null || run.timeS < prev.bestTimeS;
+  progress[id] = {
+    stars: Math.max(prev?.stars ?? 0, stars) as StageStars,
+    bestTimeS: newBestTime ? run.timeS : prev!.bestTimeS,
+  };
+  if (typeof window !== "undefined") {
+    try { window.localStorage.setItem(STAGES_KEY, JSON.stringify(progress)); }
+    catch { /* ignore */ }
+  }
+  return { stars, newBestTime, progress };
+}
@@ -1,4 +1,4 @@
-import type { VehicleId } from "./vehicles";
+import { VEHICLE_IDS, VehicleId, VehiclePhysics } from "./vehicles";
 
 export type UpgradeCategory = "engine" | "suspension" | "tires" | "fuelTank";
 export const UPGRADE_CATEGORIES: UpgradeCategory[] = ["engine", "suspension", "tires", "fuelTank"];
@@ -54,12 +54,8 @@ export function saveAllUpgrades(all: AllUpgrades) {
   } catch { /* ignore */ }
 }
 
-function emptyAllUpgrades(): AllUpgrades {
-  return {
-    jeep: defaultUpgradeLevels(),
-    bicycle: defaultUpgradeLevels(),
-    sportsCar: defaultUpgradeLevels(),
-  };
+export function emptyAllUpgrades(): AllUpgrades {
+  return Object.fromEntries(VEHICLE_IDS.map(id => [id, defaultUpgradeLevels()])) as AllUpgrades;
 }
 
 function mergeWithDefaults(partial: Partial<AllUpgrades>): AllUpgrades {
@@ -75,3 +71,23 @@ export function upgradeCostForLevel(current: number): number {
   if (current >= MAX_LEVEL) return Infinity;
   return UPGRADE_COSTS[current] ?? Infinity;
 }
+
+// Resolve the physics actually simulated for a vehicle: base values with purchased levels applied.
+export function applyUpgrades(base: VehiclePhysics, levels: UpgradeLevels): VehiclePhysics {
+  const engine = getUpgradeMultiplier("engine", levels.engine ?? 0);
+  const suspension = getUpgradeMultiplier("suspension", levels.suspension ?? 0);
+  const tires = getUpgradeMultiplier("tires", levels.tires ?? 0);
+  const fuelTank = getUpgradeMultiplier("fuelTank", levels.fuelTank ?? 0);
+
+  return {
+    ...base,
+    maxMotorTorque: base.maxMotorTorque * engine,
+    maxMotorSpeed: base.maxMotorSpeed * engine,
+    suspensionHz: base.suspensionHz * suspension,
+    // Damping ratio is already close to critical; scale it at half rate so springs never go dead.
+    suspensionDamping: Math.min(1.2, base.suspensionDamping * (1 + (suspension - 1) * 0.5)),
+    wheelFriction: base.wheelFriction * tires,
+    brakeMaxTorque: base.brakeMaxTorque * tires,
+    fuelCapacity: base.fuelCapacity * fuelTank,
+  };
+}
@@ -1,11 +1,10 @@
-export type VehicleId = "jeep" | "bicycle" | "sportsCar";
+export type VehicleId = "jeep" | "bicycle" | "sportsCar" | "monsterTruck" | "tank";
 
 export interface VehiclePhysics {
   chassisDensity: number;
   chassisAngularDamping: number;
   chassisLinearDamping: number;
   wheelRadius: number;
-  wheelbase: number;       // half-distance between wheel centers
   wheelDensity: number;
   wheelFriction: number;
   wheelAngularDamping: number;
@@ -18,6 +17,77 @@ export interface VehiclePhysics {
   fuelDrainBase: number;
   fuelDrainThrottle: number;
   spawnY: number;          // chassis height offset above terrain
+  impactSafe: number;      // m/s of whole-vehicle speed change a single hit does without harm
+  durability: number;      // m/s of harmful impact the body takes before it is destroyed
+  wheelDurability: number; // the same for each wheel before it tears off
+}
+
+// ─── Rig ────────────────────────────────────────────────────────────────────
+// How the simulation builds and drives a vehicle. Positions are in chassis space (m), x forward, y up.
+
+// `density` scales the vehicle's chassisDensity; fixtures without `friction` use planck's default.
+export type ChassisPart =
+  | { shape: "box"; hw: number; hh: number; x?: number; y?: number; angle?: number; density?: number; friction?: number }
+  | { shape: "polygon"; points: [number, number][]; density?: number; friction?: number };
+
+// Wheels hang on sprung joints at `x`, spawned a wheel radius plus 0.2 m above the ground. Each belongs
+// to the rear or front axle; an axle's drive and brake torque is shared evenly between its wheels.
+export interface WheelSpec {
+  x: number;
+  axle: "rear" | "front";
+}
+
+// AWD under throttle: the front axle gets `frontShare` of max torque with a wheel down (`frontShareAir`
+// in the air) and the rear keeps `rearShare` of what it would have had alone. Braking works on both axles.
+export type Drivetrain =
+  | { layout: "RWD" | "FWD" }
+  | { layout: "AWD"; frontShare: number; frontShareAir: number; rearShare: number };
+
+// One self-righting stage, applied while a wheel is down: torque = -(pitchGain * pitch + rateGain * spin),
+// capped at maxTorque and faded out towards `fadeSpeed` (m/s). `oneWheel` applies while only one axle is down.
+export interface Stabiliser {
+  pitchGain: number;
+  rateGain: number;
+  maxTorque: number;
+  fadeSpeed: number;
+  pedalFade: boolean;  // only help while the pedals are released
+  oneWheel: number;    // strength with just one axle down
+}
+
+export interface CrashRules {
+  // Low bodies can lie upside down on the ground with no wheel touching it.
+  upsideBodyContact?: boolean;
+  // Tall bodies: upside down and touching with the roof point, the head or the wheels for `holdS`.
+  roof?: { x: number; y: number; clearance: number; headClearance: number; restHeight: number; holdS: number };
+}
+
+// Cargo mode: crates ride in a bed on the chassis, between `x0` and `x1` on a floor at `floor`, or on
+// a trailer pinned to `hitch` behind the rear wheel.
+export type CargoRig =
+  | { kind: "bed"; x0: number; x1: number; floor: number; crates: number }
+  | { kind: "trailer"; hitch: [number, number]; crates: number };
+
+export interface VehicleRig {
+  chassis: ChassisPart[];
+  wheels: WheelSpec[];                          // rear to front
+  drivetrain: Drivetrain;
+  stabilisers: Stabiliser[];
+  maxSpinRate: number;                          // rad/s cap on chassis spin while grounded
+  head: { x: number; y: number; r: number };    // crash sensor, lined up with the drawn head
+  crash: CrashRules;
+  cargo: CargoRig;
+}
+
+// Every vehicle gets this first: gentle self-righting with the pedals released at low speed.
+const BASE_STABILISER: Stabiliser = { pitchGain: 2.8, rateGain: 0.8, maxTorque: 10, fadeSpeed: 7.5, pedalFade: true, oneWheel: 0.35 };
+
+// Sprite paths under /public. The jeep and sports car lay their body out from the wheel holes in the
+// artwork; other vehicles give the body's size and centre in chassis space (m) and the head on `rig.head`.
+export interface VehicleArt {
+  body: string;
+  wheel: string;
+  bodySize?: [number, number];
+  bodyCenter?: [number, number];
 }
 
 export interface VehicleVisual {
@@ -25,6 +95,9 @@ export interface VehicleVisual {
   accentColor: string;
   highlightColor: string;
   bodyShape: VehicleId;
+  headlight: [number, number];  // lamp position in chassis space (m), at the front of the sprite
+  art?: VehicleArt;             // the bike is drawn by hand
+  tracks?: boolean;             // a tread belt runs around the road wheels
 }
 
 export interface VehicleStat {
@@ -36,22 +109,27 @@ export interface VehicleStat {
 
 export interface VehicleConfig {
   id: VehicleId;
+  code: number;       // what scores are signed and stored onchain with; never renumber or reuse one
   name: string;
   emoji: string;
   tagline: string;
   price: number;
+  daily: boolean;     // in the daily challenge rotation, in the order declared; past days depend on it, so never unflag one or flag one before the last
   stats: VehicleStat;
   physics: VehiclePhysics;
+  rig: VehicleRig;
   visual: VehicleVisual;
 }
 
 export const VEHICLES: Record<VehicleId, VehicleConfig> = {
   jeep: {
     id: "jeep",
+    code: 0,
     name: "Jeep",
     emoji: "🚙",
     tagline: "Classic off-road legend. Balanced in every way.",
     price: 0,
+    daily: true,
     stats: { speed: 3, grip: 4, stability: 4, fuel: 3 },
     physics: {
       // Jeep-only retune: heavier planted chassis, grippier tires, and less bouncy suspension.
@@ -59,7 +137,6 @@ export const VEHICLES: Record<VehicleId, VehicleConfig> = {
       chassisAngularDamping: 3.05,
       chassisLinearDamping: 0.13,
       wheelRadius: 0.39,
-      wheelbase: 0.92,
       wheelDensity: 1.15,
       wheelFriction: 1.28,
       wheelAngularDamping: 1.08,
@@ -72,28 +149,53 @@ export const VEHICLES: Record<VehicleId, VehicleConfig> = {
       fuelDrainBase: 0.16,
       fuelDrainThrottle: 1.35,
       spawnY: 1.22,
+      impactSafe: 0.6,
+      durability: 12,
+      wheelDurability: 8,
+    },
+    rig: {
+      // Heavy lower rail kept above the wheel line so the body doesn't look sunk into the tires.
+      chassis: [
+        { shape: "box", hw: 1.18, hh: 0.20, x: 0.00, y: 0.03, friction: 0.30 },
+        { shape: "box", hw: 0.50, hh: 0.20, x: -0.18, y: 0.36, density: 0.55, friction: 0.28 },
+        { shape: "box", hw: 0.72, hh: 0.08, x: 0.03, y: -0.16, density: 1.25, friction: 0.35 },
+      ],
+      wheels: [{ x: -0.92, axle: "rear" }, { x: 0.92, axle: "front" }],
+      drivetrain: { layout: "AWD", frontShare: 0.42, frontShareAir: 0.12, rearShare: 0.84 },
+      stabilisers: [
+        BASE_STABILISER,
+        { pitchGain: 4.2, rateGain: 1.15, maxTorque: 16, fadeSpeed: 10, pedalFade: false, oneWheel: 0.55 },
+      ],
+      maxSpinRate: 5.8,
+      head: { x: -0.31, y: 0.36, r: 0.08 },
+      crash: { roof: { x: 0.0, y: 0.62, clearance: 0.18, headClearance: 0.32, restHeight: 1.34, holdS: 0.08 } },
+      // The tub behind the seats, on top of the lower rail.
+      cargo: { kind: "bed", x0: -1.18, x1: -0.68, floor: 0.23, crates: 2 },
     },
     visual: {
       bodyColor: "#e11d2e",
       accentColor: "#a30f1f",
       highlightColor: "#ff6b7a",
       bodyShape: "jeep",
+      headlight: [1.15, 0.12],
+      art: { body: "/assets/vehicles/jeep_body.png", wheel: "/assets/vehicles/jeep_wheel.png" },
     },
   },
 
   bicycle: {
     id: "bicycle",
+    code: 1,
     name: "Drift Bike",
     emoji: "🏍️",
     tagline: "Lightweight & nimble. Easy to flip, hard to master.",
     price: 0,
+    daily: true,
     stats: { speed: 4, grip: 4, stability: 3, fuel: 5 },
     physics: {
       chassisDensity: 3.5,
       chassisAngularDamping: 2.0,
       chassisLinearDamping: 0.10,
       wheelRadius: 0.32,
-      wheelbase: 0.76,
       wheelDensity: 0.5,
       wheelFriction: 1.1,
       wheelAngularDamping: 0.8,
@@ -106,28 +208,46 @@ export const VEHICLES: Record<VehicleId, VehicleConfig> = {
       fuelDrainBase: 0.12,
       fuelDrainThrottle: 0.85,
       spawnY: 0.92,
+      impactSafe: 0.6,
+      durability: 9,
+      wheelDurability: 9,
+    },
+    rig: {
+      chassis: [
+        { shape: "box", hw: 0.5, hh: 0.1, friction: 0.25 },
+        { shape: "box", hw: 0.1, hh: 0.3, x: -0.2, y: 0.2 },
+      ],
+      wheels: [{ x: -0.76, axle: "rear" }, { x: 0.76, axle: "front" }],
+      drivetrain: { layout: "RWD" },
+      stabilisers: [BASE_STABILISER],
+      maxSpinRate: 6.5,
+      head: { x: -0.25, y: 0.75, r: 0.08 },
+      crash: {},
+      cargo: { kind: "trailer", hitch: [-1.18, -0.05], crates: 4 },
     },
     visual: {
       bodyColor: "#eab308",
       accentColor: "#ca8a04",
       highlightColor: "#fde047",
       bodyShape: "bicycle",
+      headlight: [0.45, 0.32],
     },
   },
 
   sportsCar: {
     id: "sportsCar",
+    code: 2,
     name: "Sports Car",
     emoji: "🏎️",
     tagline: "Blazing top speed. Terrible off-road.",
     price: 500,
+    daily: true,
     stats: { speed: 5, grip: 3, stability: 4, fuel: 2 },
     physics: {
       chassisDensity: 4.7,
       chassisAngularDamping: 2.9,
       chassisLinearDamping: 0.16,
       wheelRadius: 0.31,
-      wheelbase: 1.05,
       wheelDensity: 1.0,
       wheelFriction: 0.96,
       wheelAngularDamping: 0.95,
@@ -140,24 +260,172 @@ export const VEHICLES: Record<VehicleId, VehicleConfig> = {
       fuelDrainBase: 0.22,
       fuelDrainThrottle: 1.75,
       spawnY: 1.12,
+      impactSafe: 0.55,
+      durability: 9,
+      wheelDurability: 7,
+    },
+    rig: {
+      chassis: [
+        { shape: "box", hw: 1.2, hh: 0.15, friction: 0.25 },
+        { shape: "box", hw: 0.6, hh: 0.15, x: -0.2, y: 0.2, density: 0.5 },
+      ],
+      wheels: [{ x: -1.05, axle: "rear" }, { x: 1.05, axle: "front" }],
+      drivetrain: { layout: "RWD" },
+      stabilisers: [BASE_STABILISER],
+      maxSpinRate: 6.5,
+      head: { x: -0.02, y: 0.03, r: 0.08 },
+      // Sits so low that upside down the body rests on the ground with both wheels in the air.
+      crash: { upsideBodyContact: true },
+      cargo: { kind: "trailer", hitch: [-1.45, -0.1], crates: 4 },
     },
     visual: {
       bodyColor: "#4f46e5",
       accentColor: "#1e1b4b",
       highlightColor: "#818cf8",
       bodyShape: "sportsCar",
+      headlight: [1.18, 0.02],
+      art: { body: "/assets/vehicles/sports_car_body.png", wheel: "/assets/vehicles/sports_car_wheel.png" },
+    },
+  },
+
+  monsterTruck: {
+    id: "monsterTruck",
+    code: 3,
+    name: "Monster Truck",
+    emoji: "🛻",
+    tagline: "Huge tyres roll over anything. Heavy, thirsty and bouncy.",
+    price: 1500,
+    daily: false,
+    stats: { speed: 3, grip: 4, stability: 3, fuel: 2 },
+    physics: {
+      chassisDensity: 6.4,
+      chassisAngularDamping: 3.2,
+      chassisLinearDamping: 0.14,
+      wheelRadius: 0.62,
+      wheelDensity: 0.9,
+      wheelFriction: 1.3,
+      wheelAngularDamping: 1.1,
+      suspensionHz: 3.9,
+      suspensionDamping: 0.72,
+      maxMotorSpeed: 22,
+      maxMotorTorque: 400,
+      brakeMaxTorque: 420,
+      fuelCapacity: 120,
+      fuelDrainBase: 0.24,
+      fuelDrainThrottle: 1.9,
+      spawnY: 1.66,
+      impactSafe: 0.7,
+      durability: 16,
+      wheelDurability: 10,
+    },
+    rig: {
+      // A short, heavy frame riding high between the tyres, with the cab on top and ballast over the
+      // front axle so the big rear tyres don't lift the nose on every launch.
+      chassis: [
+        { shape: "box", hw: 1.05, hh: 0.18, x: 0.00, y: 0.00, friction: 0.30 },
+        { shape: "box", hw: 0.48, hh: 0.24, x: -0.12, y: 0.40, density: 0.5, friction: 0.28 },
+        { shape: "box", hw: 0.55, hh: 0.10, x: 0.00, y: -0.26, density: 1.6, friction: 0.35 },
+        { shape: "box", hw: 0.30, hh: 0.10, x: 0.72, y: -0.18, density: 2.4, friction: 0.35 },
+      ],
+      wheels: [{ x: -1.12, axle: "rear" }, { x: 1.12, axle: "front" }],
+      drivetrain: { layout: "AWD", frontShare: 0.5, frontShareAir: 0.1, rearShare: 0.72 },
+      stabilisers: [
+        BASE_STABILISER,
+        { pitchGain: 4.8, rateGain: 1.3, maxTorque: 22, fadeSpeed: 9, pedalFade: false, oneWheel: 0.5 },
+      ],
+      maxSpinRate: 5.2,
+      head: { x: -0.18, y: 0.46, r: 0.08 },
+      crash: { roof: { x: -0.12, y: 0.66, clearance: 0.18, headClearance: 0.32, restHeight: 1.8, holdS: 0.08 } },
+      cargo: { kind: "trailer", hitch: [-1.85, -0.2], crates: 4 },
+    },
+    visual: {
+      bodyColor: "#16a34a",
+      accentColor: "#14532d",
+      highlightColor: "#86efac",
+      bodyShape: "monsterTruck",
+      headlight: [1.1, 0.12],
+      art: { body: "/assets/vehicles/monster_truck_body.svg", wheel: "/assets/vehicles/monster_truck_wheel.svg", bodySize: [2.5, 1.1], bodyCenter: [0, 0.22] },
+    },
+  },
+
+  tank: {
+    id: "tank",
+    code: 4,
+    name: "Crawler Tank",
+    emoji: "🪖",
+    tagline: "Six driven road wheels crawl up anything. Don't expect to hurry.",
+    price: 3000,
+    daily: false,
+    stats: { speed: 1, grip: 5, stability: 5, fuel: 3 },
+    physics: {
+      chassisDensity: 6.2,
+      chassisAngularDamping: 3.6,
+      chassisLinearDamping: 0.15,
+      wheelRadius: 0.26,
+      wheelDensity: 1.4,
+      wheelFriction: 1.85,
+      wheelAngularDamping: 1.2,
+      suspensionHz: 6.2,
+      suspensionDamping: 1.0,
+      maxMotorSpeed: 30,
+      maxMotorTorque: 720,
+      brakeMaxTorque: 600,
+      fuelCapacity: 110,
+      fuelDrainBase: 0.2,
+      fuelDrainThrottle: 1.45,
+      spawnY: 1.02,
+      impactSafe: 0.7,
+      durability: 18,
+      wheelDurability: 12,
+    },
+    rig: {
+      // Long low hull over the road wheels with the turret set back; the sloped glacis lets steps slide under.
+      chassis: [
+        { shape: "polygon", points: [[-1.5, -0.2], [1.3, -0.2], [1.58, 0.06], [1.4, 0.2], [-1.5, 0.2]], friction: 0.35 },
+        { shape: "box", hw: 0.52, hh: 0.16, x: -0.18, y: 0.36, density: 0.6, friction: 0.3 },
+      ],
+      wheels: [
+        { x: -1.35, axle: "rear" }, { x: -0.81, axle: "rear" }, { x: -0.27, axle: "rear" },
+        { x: 0.27, axle: "front" }, { x: 0.81, axle: "front" }, { x: 1.35, axle: "front" },
+      ],
+      drivetrain: { layout: "AWD", frontShare: 0.5, frontShareAir: 0.2, rearShare: 0.9 },
+      stabilisers: [
+        BASE_STABILISER,
+        { pitchGain: 5.2, rateGain: 1.4, maxTorque: 24, fadeSpeed: 8, pedalFade: false, oneWheel: 0.6 },
+      ],
+      maxSpinRate: 4.8,
+      head: { x: -0.08, y: 0.68, r: 0.08 },
+      crash: { roof: { x: -0.18, y: 0.52, clearance: 0.18, headClearance: 0.32, restHeight: 1.1, holdS: 0.08 } },
+      cargo: { kind: "trailer", hitch: [-1.62, 0.0], crates: 4 },
+    },
+    visual: {
+      bodyColor: "#65733a",
+      accentColor: "#3f4a22",
+      highlightColor: "#a3b266",
+      bodyShape: "tank",
+      headlight: [1.46, 0.11],
+      art: { body: "/assets/vehicles/tank_body.svg", wheel: "/assets/vehicles/tank_wheel.svg", bodySize: [3.3, 0.92], bodyCenter: [0.02, 0.2] },
+      tracks: true,
     },
   },
 
 };
 
+// Every vehicle, in the order declared above; the menu lists them this way.
+export const VEHICLE_IDS = Object.keys(VEHICLES) as VehicleId[];
+
 const VEHICLE_KEY = "jhc_vehicle_v1";
 
 export function loadVehicle(): VehicleId {
   if (typeof window === "undefined") return "jeep";
   const v = window.localStorage.getItem(VEHICLE_KEY);
-  if (v === "bicycle" || v === "sportsCar") return v;
-  return "jeep";
+  return v && VEHICLES[v as VehicleId]?.id === v ? v as VehicleId : "jeep";
+}
+
+// Half the distance between the outermost wheels; the sprites are laid out around it.
+export function halfWheelbase(v: VehicleConfig): number {
+  const xs = v.rig.wheels.map(w => w.x);
+  return (Math.max(...xs) - Math.min(...xs)) / 2;
 }
 
 export function saveVehicle(id: VehicleId) {
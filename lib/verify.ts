@@ -0,0 +1,95 @@
+import { isAddress } from "viem";
+import { HEADS } from "./heads";
+import { MAPS } from "./maps";
+import { MAX_LEVEL, UPGRADE_CATEGORIES, getUpgradeMultiplier } from "./upgrades";
+import { VEHICLE_IDS, VEHICLES } from "./vehicles";
+import { Replay, REPLAY_FORMAT, decodeReplay, runReplay } from "./replay";
+import { HillClimbState, HZ, SIM_VERSION } from "./simulation";
+import { STAGES } from "./stages";
+
+// Server-side check of a recorded run: validate the recording, re-simulate it headlessly and
+// report the distance the physics actually produces. Shared by /api/verify-run and the fixture script.
+
+// The start line drains no fuel, so waiting there gets a fixed allowance. Past it, the longest a run can
+// last on one tank is the biggest upgraded tank burned at the engine's idle drain; cans refill it, but any
+// throttle empties a tank in a couple of minutes, so this is far past what a real run reaches.
+const START_LINE_S = 120;
+const LONGEST_TANK_S = Math.max(...VEHICLE_IDS.map(id => {
+  const p = VEHICLES[id].physics;
+  return p.fuelCapacity * getUpgradeMultiplier("fuelTank", MAX_LEVEL) / p.fuelDrainBase;
+}));
+export const MAX_VERIFY_TICKS = Math.ceil(HZ * (START_LINE_S + LONGEST_TANK_S));
+const CLAIM_TOLERANCE_M = 1;                    // allowance for float noise between JS engines
+
+export type RunVerification =
+  | { ok: true; meters: number; distanceM: number; status: HillClimbState["status"]; ticks: number }
+  | { ok: false; reason: string };
+
+const reject = (reason: string): RunVerification => ({ ok: false, reason });
+
+const isInt = (v: unknown): v is number => typeof v === "number" && Number.isInteger(v);
+
+// Accepts a decoded Replay object or its encodeReplay() string.
+export function parseReplay(input: unknown): Replay | string {
+  // A decoded string gets every check below too; decodeReplay only vouches for the envelope.
+  const decoded = typeof input === "string" ? decodeReplay(input) : input;
+  if (typeof input === "string" && !decoded) return "Recording is malformed or from another build";
+  if (!decoded || typeof decoded !== "object") return "Missing recording";
+  const rep = decoded as Replay;
+
+  if (rep.v !== REPLAY_FORMAT) return "Unsupported recording format";
+  if (rep.physics !== SIM_VERSION) return "Recording was made with a different physics version";
+  if (!isInt(rep.seed) || rep.seed < 0 || rep.seed > 0xffffffff) return "Invalid seed";
+  if (!Object.hasOwn(MAPS, rep.mapId)) return "Unknown map";
+  if (!Object.hasOwn(VEHICLES, rep.vehicleId)) return "Unknown vehicle";
+  if (!Object.hasOwn(HEADS, rep.headId)) return "Unknown driver";
+  if (typeof rep.runId !== "string" || rep.runId.length > 64) return "Invalid run id";
+  if (rep.player !== undefined && (typeof rep.player !== "string" || !isAddress(rep.player))) return "Invalid player address";
+  if (rep.stageId !== undefined) {
+    if (!Object.hasOwn(STAGES, rep.stageId)) return "Unknown stage";
+    const stage = STAGES[rep.stageId];
+    if (stage.mapId !== rep.mapId || stage.vehicleId !== rep.vehicleId) return "Stage played with the wrong map or vehicle";
+  }
+  if (rep.cargo !== undefined && (rep.cargo !== true || rep.stageId !== undefined)) return "Invalid cargo flag";
+
+  const up = rep.upgrades as Record<string, unknown> | undefined;
+  if (!up || typeof up !== "object") return "Missing upgrades";
+  for (const cat of UPGRADE_CATEGORIES) {
+    const l = up[cat];
+    if (!isInt(l) || l < 0 || l > MAX_LEVEL) return `Invalid ${cat} upgrade level`;
+  }
+
+  if (!isInt(rep.ticks) || rep.ticks <= 0) return "Recording has no steps";
+  if (rep.ticks > MAX_VERIFY_TICKS) return "Recording is too long to verify";
+  if (!Array.isArray(rep.pauses)) return "Invalid pauses";
+  if (!Array.isArray(rep.inputs) || rep.inputs.length > rep.ticks) return "Invalid inputs";
+  let prev = -1;
+  for (const e of rep.inputs) {
+    if (!Array.isArray(e) || e.length !== 3) return "Invalid input entry";
+    const [tick, throttle, boost] = e;
+    if (!isInt(tick) || tick <= prev || tick >= rep.ticks) return "Input steps must increase within the run";
+    if (!isInt(throttle) || throttle < -100 || throttle > 100) return "Throttle out of range";
+    if (boost !== 0 && boost !== 1) return "Invalid boost flag";
+    prev = tick;
+  }
+  if (typeof rep.distanceM !== "number" || !Number.isFinite(rep.distanceM)) return "Missing claimed distance";
+
+  return rep;
+}
+
+export function verifyRun(input: unknown): RunVerification {
+  const rep = parseReplay(input);
+  return typeof rep === "string" ? reject(rep) : verifyReplay(rep);
+}
+
+// For callers that already hold a parseReplay() result.
+export function verifyReplay(rep: Replay): RunVerification {
+  const out = runReplay(rep);
+  if (out.status !== "CRASH" && out.status !== "OUT_OF_FUEL" && out.status !== "FINISHED" && out.status !== "DESTROYED") return reject("Run did not end within the recording");
+  if (out.status !== rep.status) return reject("Replay ends with a different result than claimed");
+  // A recording closes on the step its run ends; padding it would make the same run look like another.
+  if (out.ticks !== rep.ticks) return reject("Recording runs on past the end of the run");
+  if (Math.abs(out.distanceM - rep.distanceM) > CLAIM_TOLERANCE_M) return reject("Replay does not reproduce the claimed distance");
+
+  return { ok: true, meters: Math.max(0, Math.floor(out.distanceM)), distanceM: out.distanceM, status: out.status, ticks: out.ticks };
+}
@@ -0,0 +1,39 @@
+import { HZ } from "./simulation";
+import { MAX_VERIFY_TICKS } from "./verify";
+
+// Per-client budget of simulation steps for the routes that re-simulate runs. A player can't record
+// steps faster than real time and each run is verified twice (at game over and when saved), so a budget
+// that refills at a few times real time never holds a player up, while one client can't keep the server
+// busy re-simulating. In memory, so each server instance keeps its own.
+
+const REFILL_PER_S = 3 * HZ;
+const CAPACITY = 2 * MAX_VERIFY_TICKS;   // one longest run, verified and then saved
+const MAX_CLIENTS = 10_000;
+
+type Bucket = { steps: number; atMs: number };
+const buckets = new Map<string, Bucket>();
+
+export function clientKey(req: Request): string {
+  const forwarded = req.headers.get("x-forwarded-for")?.split(",")[0]?.trim();
+  return forwarded || req.headers.get("x-real-ip")?.trim() || "unknown";
+}
+
+// Buckets that have refilled are the same as no bucket at all.
+function prune(nowMs: number) {
+  if (buckets.size < MAX_CLIENTS) return;
+  for (const [key, b] of buckets) {
+    if (b.steps + ((nowMs - b.atMs) / 1000) * REFILL_PER_S >= CAPACITY) buckets.delete(key);
+  }
+}
+
+// Spends `steps` from the client's budget; false (and nothing spent) when it doesn't have them.
+export function takeVerifySteps(key: string, steps: number, nowMs = Date.now()): boolean {
+  prune(nowMs);
+  const b = buckets.get(key) ?? { steps: CAPACITY, atMs: nowMs };
+  b.steps = Math.min(CAPACITY, b.steps + ((nowMs - b.atMs) / 1000) * REFILL_PER_S);
+  b.atMs = nowMs;
+  buckets.set(key, b);
+  if (b.steps < steps) return false;
+  b.steps -= steps;
+  return true;
+}
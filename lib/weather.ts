@@ -0,0 +1,78 @@
+import type { MapWeather, WeatherKind } from "./maps";
+
+// Seeded weather for the endless track. Strength comes and goes in fronts, gusts fall in fixed slots,
+// and both are pure functions of (seed, run time), so replays, ghosts and everyone on the daily seed
+// drive through the same storm. Only the settled snow is state, built up tick by tick.
+
+const FRONT_S = 20;       // the weather picks a new strength every front and eases into it
+const GUST_SLOT_S = 6;    // at most one gust per slot
+const FRONT_SALT = 0x3c6ef372, GUST_SALT = 0xa54ff53a;
+
+export type WeatherReading = {
+  kind: WeatherKind;
+  intensity01: number;   // how hard it is blowing or snowing right now
+  wind: number;          // -1..1 push of the current gust; + blows the way the car drives
+  snow01: number;        // settled snow, 0..1
+  grip01: number;        // ground friction left, relative to the map's
+  visibility01: number;  // share of the view left; 1 = clear
+};
+
+export type Weather = {
+  config: MapWeather;
+  reading: WeatherReading;
+  advance: (dt: number) => void;  // moves the weather clock; the simulation calls it while the run clock runs
+};
+
+function hash01(seed: number, i: number, salt: number) {
+  let h = Math.imul(seed ^ salt, 0x9e3779b1) ^ Math.imul(i + 1, 0x85ebca6b);
+  h = Math.imul(h ^ (h >>> 15), 0x2c1b3c6d);
+  h = Math.imul(h ^ (h >>> 12), 0x297a2d39);
+  return ((h ^ (h >>> 15)) >>> 0) / 4294967296;
+}
+
+// The first front is always mild so nobody is blown over on the start line.
+function frontLevel(seed: number, i: number) {
+  return i === 0 ? 0.2 : 0.15 + 0.85 * hash01(seed, i, FRONT_SALT);
+}
+
+function intensityAt(seed: number, t: number) {
+  const i = Math.floor(t / FRONT_S);
+  const u = t / FRONT_S - i;
+  const e = u * u * (3 - 2 * u);
+  return frontLevel(seed, i) + (frontLevel(seed, i + 1) - frontLevel(seed, i)) * e;
+}
+
+// Stronger weather brings more gusts. Headwinds are a little more common than tailwinds.
+function gustAt(seed: number, t: number, intensity01: number) {
+  const j = Math.floor(t / GUST_SLOT_S);
+  if (hash01(seed, j, GUST_SALT) > 0.25 + 0.6 * intensity01) return 0;
+  const len = 1.2 + 1.8 * hash01(seed, j, GUST_SALT + 1);
+  const start = j * GUST_SLOT_S + hash01(seed, j, GUST_SALT + 2) * (GUST_SLOT_S - len);
+  const u = (t - start) / len;
+  if (u <= 0 || u >= 1) return 0;
+  const dir = hash01(seed, j, GUST_SALT + 3) < 0.55 ? -1 : 1;
+  const strength = (0.6 + 0.4 * hash01(seed, j, GUST_SALT + 4)) * (0.5 + 0.5 * intensity01);
+  return dir * strength * Math.sin(Math.PI * u);
+}
+
+export function createWeather(seed: number, config: MapWeather): Weather {
+  let t = 0;
+  const reading: WeatherReading = { kind: config.kind, intensity01: 0, wind: 0, snow01: 0, grip01: 1, visibility01: 1 };
+
+  const read = () => {
+    const intensity01 = intensityAt(seed, t);
+    reading.intensity01 = intensity01;
+    reading.wind = config.windAccel ? gustAt(seed, t, intensity01) : 0;
+    reading.grip01 = 1 - (config.snowGripLoss ?? 0) * reading.snow01;
+    reading.visibility01 = 1 - (1 - (config.dustVisibility ?? 1)) * intensity01;
+  };
+
+  const advance = (dt: number) => {
+    t += dt;
+    if (config.snowSettleS) reading.snow01 = Math.min(1, reading.snow01 + reading.intensity01 * dt / config.snowSettleS);
+    read();
+  };
+
+  read();
+  return { config, reading, advance };
+}
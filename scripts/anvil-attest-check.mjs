@@ -0,0 +1,154 @@
+import fs from "fs";
+import path from "path";
+import { createPublicClient, createWalletClient, http, recoverTypedDataAddress, toHex } from "viem";
+import { privateKeyToAccount } from "viem/accounts";
+import { foundry } from "viem/chains";
+import { compileLib } from "./compile-lib.mjs";
+
+/**
+ * End-to-end check of score attestations against a local anvil node:
+ * verify + sign a fixture run the way /api/attest-score does, submit it to a deployed
+ * JesseHillClimbScoreboardV2, check the per map/vehicle and daily bests, then make sure
+ * replays, resubmitted runs, wrong players, tampered fields and expired attestations are all rejected.
+ *
+ *   anvil
+ *   SCOREBOARD=0x... npm run attest:anvil   # address from `forge create` (see contracts/README.md)
+ */
+
+// anvil's default dev accounts: #0 deploys and plays, #1 signs scores, #2 is another player
+const DEV_KEYS = [
+  "0xac0974bec39a17e36ba4a6b4d238ff944bacb478cbed5efcae784d7bf4f2ff80",
+  "0x59c6995e998f97a5a0044966f0945389dc9e86dae88c7a8412f4603b6b78690d",
+  "0x5de4111afa1a4b94908f83103eb1f1706367c2e82e998a66e9c5ab1b5b2d1e8d",
+];
+
+const RPC_URL = process.env.ANVIL_RPC_URL ?? foundry.rpcUrls.default.http[0];
+const SCOREBOARD = process.env.SCOREBOARD ?? process.env.NEXT_PUBLIC_SCOREBOARD_ADDRESS;
+const SIGNER_KEY = process.env.SCORE_SIGNER_PRIVATE_KEY ?? DEV_KEYS[1];
+const FIXTURE = path.join(process.cwd(), "fixtures", "runs", "valid-jeep-hills.json");
+
+const { verifyRun } = compileLib("verify", "attest-anvil");
+const { signScoreAttestation, attestationArgs, runHash, scoreAttestationDomain, scoreAttestationTypes, ATTESTATION_TTL_S } =
+  compileLib("attestation", "attest-anvil");
+const { scoreboardAbi: abi } = compileLib("onchainAbi", "attest-anvil");
+
+// Parts of the contract the app itself never calls.
+const extraAbi = [
+  { type: "function", name: "signer", stateMutability: "view", inputs: [], outputs: [{ name: "", type: "address" }] },
+  ...["AttestationExpired", "RunAlreadySubmitted", "InvalidSigner"].map(name => ({ type: "error", name, inputs: [] })),
+];
+
+let failed = 0;
+function check(name, pass, detail = "") {
+  if (!pass) failed++;
+  console.log(`${pass ? "ok  " : "FAIL"} ${name}${detail ? `: ${detail}` : ""}`);
+}
+
+async function expectRevert(name, client, account, args, errorName) {
+  try {
+    await client.simulateContract({ address: SCOREBOARD, abi: [...abi, ...extraAbi], functionName: "submitScore", args, account });
+    check(name, false, "call succeeded");
+  } catch (e) {
+    const got = e?.cause?.data?.errorName ?? e?.shortMessage ?? String(e);
+    check(name, got === errorName, got);
+  }
+}
+
+async function main() {
+  if (!SCOREBOARD) throw new Error("Set SCOREBOARD to the deployed JesseHillClimbScoreboardV2 address");
+
+  const publicClient = createPublicClient({ chain: foundry, transport: http(RPC_URL) });
+  const chainId = await publicClient.getChainId();
+  const signer = privateKeyToAccount(SIGNER_KEY);
+  const player = privateKeyToAccount(DEV_KEYS[0]);
+  const other = privateKeyToAccount(DEV_KEYS[2]);
+  const wallet = createWalletClient({ chain: foundry, transport: http(RPC_URL), account: player });
+
+  const onchainSigner = await publicClient.readContract({ address: SCOREBOARD, abi: extraAbi, functionName: "signer" });
+  check("contract signer matches SCORE_SIGNER_PRIVATE_KEY", onchainSigner.toLowerCase() === signer.address.toLowerCase(), onchainSigner);
+
+  const { replay } = JSON.parse(fs.readFileSync(FIXTURE, "utf8"));
+  const verified = verifyRun(replay);
+  check("fixture run verifies", verified.ok, verified.ok ? `${verified.meters}m` : verified.reason);
+  if (!verified.ok) process.exit(1);
+
+  const run = runHash(replay);
+  check("run hash ignores run id, driver and player", runHash({ ...replay, runId: "other", headId: "brian", player: other.address }) === run);
+  const [lastTick, throttle, boost] = replay.inputs[replay.inputs.length - 1];
+  check("run hash ignores an input that repeats the held one", runHash({ ...replay, inputs: [...replay.inputs, [lastTick + 1, throttle, boost]] }) === run);
+  check("run hash changes with the inputs", runHash({ ...replay, inputs: replay.inputs.slice(0, -1) }) !== run);
+
+  // The contract takes each run once, so every submission below signs a run hash of its own;
+  // that also lets the script run again against the same deployment.
+  const freshRun = () => toHex(crypto.getRandomValues(new Uint8Array(32)));
+  const sign = (over = {}) => signScoreAttestation(SIGNER_KEY, {
+    chainId, verifyingContract: SCOREBOARD, player: player.address,
+    meters: verified.meters, mapId: replay.mapId, vehicleId: replay.vehicleId, seed: replay.seed, daily: false, run: freshRun(), ...over,
+  });
+  const att = await sign();
+
+  const recovered = await recoverTypedDataAddress({
+    domain: scoreAttestationDomain(chainId, SCOREBOARD),
+    types: scoreAttestationTypes,
+    primaryType: "Score",
+    message: { ...att, meters: BigInt(att.meters), expiry: BigInt(att.expiry) },
+    signature: att.signature,
+  });
+  check("signature recovers to the signer offline", recovered === signer.address, recovered);
+
+  const mapCode = att.map, vehicleCode = att.vehicle;
+  const before = await publicClient.readContract({ address: SCOREBOARD, abi, functionName: "bestMeters", args: [player.address] });
+  const beforeFor = await publicClient.readContract({ address: SCOREBOARD, abi, functionName: "bestMetersFor", args: [player.address, mapCode, vehicleCode] });
+  const hash = await wallet.writeContract({ address: SCOREBOARD, abi, functionName: "submitScore", args: attestationArgs(att) });
+  const receipt = await publicClient.waitForTransactionReceipt({ hash });
+  check("attested score is accepted", receipt.status === "success", hash);
+
+  const best = await publicClient.readContract({ address: SCOREBOARD, abi, functionName: "bestMeters", args: [player.address] });
+  const want = BigInt(att.meters) > before ? BigInt(att.meters) : before;
+  check("bestMeters updated", best === want, `${best}`);
+
+  const bestFor = await publicClient.readContract({ address: SCOREBOARD, abi, functionName: "bestMetersFor", args: [player.address, mapCode, vehicleCode] });
+  const wantFor = BigInt(att.meters) > beforeFor ? BigInt(att.meters) : beforeFor;
+  check("bestMetersFor updated for the run's map and vehicle", bestFor === wantFor, `${bestFor}`);
+
+  const used = await publicClient.readContract({ address: SCOREBOARD, abi, functionName: "usedRuns", args: [att.run] });
+  check("run marked used", used === true);
+
+  await expectRevert("replayed attestation is rejected", publicClient, player, attestationArgs(att), "RunAlreadySubmitted");
+
+  const again = await sign({ run: att.run });
+  await expectRevert("the same run under a new attestation is rejected", publicClient, player, attestationArgs(again), "RunAlreadySubmitted");
+
+  const dailyAtt = await sign({ daily: true });
+  const dailyHash = await wallet.writeContract({ address: SCOREBOARD, abi, functionName: "submitScore", args: attestationArgs(dailyAtt) });
+  await publicClient.waitForTransactionReceipt({ hash: dailyHash });
+  const dailyBest = await publicClient.readContract({ address: SCOREBOARD, abi, functionName: "dailyBestMeters", args: [dailyAtt.seed, player.address] });
+  check("daily attestation records dailyBestMeters", dailyBest >= BigInt(dailyAtt.meters), `${dailyBest}`);
+
+  const fresh = await sign();
+  await expectRevert("another player cannot use it", publicClient, other, attestationArgs(fresh), "InvalidSigner");
+
+  const inflated = attestationArgs({ ...fresh, meters: String(BigInt(fresh.meters) + 1000n) });
+  await expectRevert("tampered meters are rejected", publicClient, player, inflated, "InvalidSigner");
+
+  const promoted = attestationArgs({ ...fresh, daily: true });
+  await expectRevert("a free run cannot claim to be daily", publicClient, player, promoted, "InvalidSigner");
+
+  const forged = await signScoreAttestation(DEV_KEYS[2], {
+    chainId, verifyingContract: SCOREBOARD, player: player.address,
+    meters: 99_999, mapId: replay.mapId, vehicleId: replay.vehicleId, seed: replay.seed, daily: false, run: freshRun(),
+  });
+  await expectRevert("signature from another key is rejected", publicClient, player, attestationArgs(forged), "InvalidSigner");
+
+  const block = await publicClient.getBlock();
+  const expired = await sign({ nowS: Number(block.timestamp) - ATTESTATION_TTL_S - 60 });
+  await expectRevert("expired attestation is rejected", publicClient, player, attestationArgs(expired), "AttestationExpired");
+
+  console.log(failed ? `\n${failed} check(s) failed` : "\nall checks passed");
+  if (failed > 0) process.exit(1);
+}
+
+main().catch(e => {
+  console.error(e?.shortMessage ?? e);
+  process.exit(1);
+});
@@ -0,0 +1,35 @@
+import fs from "fs";
+import path from "path";
+import { createRequire } from "module";
+
+/**
+ * Loads a `lib/` module from plain Node scripts. lib is TypeScript, so the entry and every `./`
+ * module it imports are transpiled with the project's `typescript` into node_modules/.cache
+ * (inside the repo, so `planck-js` and `viem` still resolve).
+ */
+
+const ROOT = process.cwd();
+const LIB_DIR = path.join(ROOT, "lib");
+
+const require = createRequire(import.meta.url);
+const ts = require("typescript");
+
+export function compileLib(entry, cacheName) {
+  const outDir = path.join(ROOT, "node_modules", ".cache", cacheName);
+  fs.mkdirSync(outDir, { recursive: true });
+  fs.writeFileSync(path.join(outDir, "package.json"), JSON.stringify({ type: "commonjs" }));
+  const seen = new Set();
+  const queue = [entry];
+  while (queue.length > 0) {
+    const name = queue.pop();
+    if (seen.has(name)) continue;
+    seen.add(name);
+    const src = fs.readFileSync(path.join(LIB_DIR, `${name}.ts`), "utf8");
+    for (const m of src.matchAll(/from\s+"\.\/([\w-]+)"/g)) queue.push(m[1]);
+    const out = ts.transpileModule(src, {
+      compilerOptions: { module: ts.ModuleKind.CommonJS, target: ts.ScriptTarget.ES2022, esModuleInterop: true },
+    });
+    fs.writeFileSync(path.join(outDir, `${name}.js`), out.outputText);
+  }
+  return require(path.join(outDir, `${entry}.js`));
+}
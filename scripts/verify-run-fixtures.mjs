@@ -0,0 +1,63 @@
+import fs from "fs";
+import path from "path";
+import { compileLib } from "./compile-lib.mjs";
+
+/**
+ * Offline check for /api/verify-run: re-simulates every recorded run in `fixtures/runs/*.json`
+ * and compares the result with the fixture's `expect` block. Then records fresh runs the way the game
+ * does, keeps stepping after the end as the game loop does, and checks the verifier accepts them.
+ */
+
+const FIXTURE_DIR = path.join(process.cwd(), "fixtures", "runs");
+// [vehicle, map, gas]: full gas tends to end in a crash or a wreck, a light foot in an empty tank.
+const LIVE_RUNS = [["jeep", "hills", 1], ["sportsCar", "desert", 1], ["bicycle", "hills", 1], ["jeep", "arctic", 0.6], ["bicycle", "arctic", 0.6]];
+const SETTLE_STEPS = 120;   // the game keeps stepping the frozen car for the end screen
+
+// A steady, pitch-aware driver: gas, easing off before it tips over.
+function liveRun(lib, vehicleId, mapId, gas) {
+  const { HZ, createReplay, createReplaySimulation, quantizeInput, stepRecording } = lib;
+  const rep = createReplay({ runId: `live-${vehicleId}-${mapId}`, seed: 7, mapId, vehicleId, headId: "jesse", upgrades: { engine: 0, suspension: 0, tires: 0, fuelTank: 0 } });
+  const sim = createReplaySimulation(rep);
+  let after = 0;
+  while (sim.tick < HZ * 600 && after < SETTLE_STEPS) {
+    const x = sim.car.chassis.getPosition().x;
+    const pitch = sim.car.chassis.getAngle() - Math.atan2(sim.groundY(x + 1) - sim.groundY(x - 1), 2);
+    const throttle = sim.over ? 0 : pitch > 0.45 ? -0.5 : pitch > 0.2 ? 0 : gas;
+    stepRecording(sim, rep, quantizeInput({ throttle, boost: false }));
+    if (sim.over) after++;
+  }
+  return rep;
+}
+
+function main() {
+  const { verifyRun } = compileLib("verify", "verify-run");
+  const lib = { ...compileLib("replay", "verify-run"), ...compileLib("simulation", "verify-run") };
+  const files = fs.readdirSync(FIXTURE_DIR).filter(f => f.endsWith(".json")).sort();
+  let failed = 0;
+
+  for (const file of files) {
+    const fixture = JSON.parse(fs.readFileSync(path.join(FIXTURE_DIR, file), "utf8"));
+    const got = verifyRun(fixture.replay);
+    const want = fixture.expect;
+    const pass = got.ok === want.ok && (got.ok ? got.meters === want.meters : got.reason === want.reason);
+    if (!pass) failed++;
+    const detail = got.ok ? `${got.meters}m ${got.status}` : got.reason;
+    console.log(`${pass ? "ok  " : "FAIL"} ${file}: ${detail}`);
+  }
+
+  for (const [vehicleId, mapId, gas] of LIVE_RUNS) {
+    const rep = liveRun(lib, vehicleId, mapId, gas);
+    // Sent as JSON, like the game's request to /api/verify-run.
+    const got = verifyRun(JSON.parse(JSON.stringify(rep)));
+    const pass = got.ok && got.status === rep.status && got.meters === Math.floor(rep.distanceM);
+    if (!pass) failed++;
+    const detail = got.ok ? `${got.meters}m ${got.status}` : got.reason;
+    console.log(`${pass ? "ok  " : "FAIL"} live ${vehicleId}/${mapId}: ${detail}`);
+  }
+
+  const total = files.length + LIVE_RUNS.length;
+  console.log(`\n${total - failed}/${total} runs passed`);
+  if (failed > 0) process.exit(1);
+}
+
+main();